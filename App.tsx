@@ -1,68 +1,106 @@
 
-import { useState, useEffect, useCallback } from 'react';
-import { Heart, Play, BookHeart, RefreshCcw, Trophy, Sparkles, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Heart, Play, BookHeart, RefreshCcw, Trophy, Sparkles, ChevronLeft, ChevronRight, Clapperboard, Gamepad2, AlertTriangle, X, Download, Upload, ListChecks } from 'lucide-react';
 import GameView from './components/GameView';
 import MemoryGallery from './components/MemoryGallery';
-import { GameState, SaveData, Outfit } from './types';
-import { MEMORY_POOL } from './memories';
-
-const OUTFITS: Outfit[] = [
-  { name: 'Classic Pink', bodyColor: '#db2777', hairColor: '#ff69b4', hairHighlight: '#ff85c0', skateColor: '#db2777', trimColor: '#f9a8d4', unlockScore: 0, companion: 'pikachu' },
-  { name: 'Gardevoir', bodyColor: '#4ade80', hairColor: '#22c55e', hairHighlight: '#86efac', skateColor: '#16a34a', trimColor: '#bbf7d0', unlockScore: 30, companion: 'gardevoir' },
-  { name: 'Pikachu Yellow', bodyColor: '#facc15', hairColor: '#fbbf24', hairHighlight: '#fde68a', skateColor: '#eab308', trimColor: '#fef08a', unlockScore: 50, companion: 'pikachu' },
-  { name: 'Team Rocket', bodyColor: '#1f2937', hairColor: '#6366f1', hairHighlight: '#818cf8', skateColor: '#111827', trimColor: '#4b5563', unlockScore: 100, companion: 'pikachu' },
-  { name: 'Eevee Brown', bodyColor: '#92400e', hairColor: '#a16207', hairHighlight: '#ca8a04', skateColor: '#78350f', trimColor: '#d97706', unlockScore: 200, companion: 'pikachu' },
-  { name: 'Shiny Holo', bodyColor: '#c084fc', hairColor: '#f0abfc', hairHighlight: '#67e8f9', skateColor: '#a855f7', trimColor: '#e879f9', unlockScore: 500, companion: 'gardevoir' },
-];
-
-const STORAGE_KEY = 'poke-memories-save';
-
-function loadSave(): SaveData {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (raw) {
-      const data = JSON.parse(raw);
-      return {
-        highScore: data.highScore ?? 0,
-        totalCollected: data.totalCollected ?? 0,
-        unlockedMemoryIds: data.unlockedMemoryIds ?? [],
-        unlockedOutfits: data.unlockedOutfits ?? ['Classic Pink'],
-        selectedOutfit: data.selectedOutfit ?? 'Classic Pink',
-      };
-    }
-  } catch { /* ignore corrupt data */ }
-  return { highScore: 0, totalCollected: 0, unlockedMemoryIds: [], unlockedOutfits: ['Classic Pink'], selectedOutfit: 'Classic Pink' };
-}
-
-function writeSave(data: SaveData) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-}
-
-/** Randomly pick `count` new memory IDs from the pool that aren't already unlocked */
-function pickNewMemories(alreadyUnlocked: string[], count: number): string[] {
-  const available = MEMORY_POOL.filter(m => !alreadyUnlocked.includes(m.id));
-  const picked: string[] = [];
-  const pool = [...available];
-  for (let i = 0; i < count && pool.length > 0; i++) {
-    const idx = Math.floor(Math.random() * pool.length);
-    picked.push(pool[idx].id);
-    pool.splice(idx, 1);
-  }
-  return picked;
-}
+import UnlockPreview from './components/UnlockPreview';
+import UnlockReveal from './components/UnlockReveal';
+import ProgressMeter from './components/ProgressMeter';
+import ControlsSettings from './components/ControlsSettings';
+import ImportPreview from './components/ImportPreview';
+import ProfilePicker from './components/ProfilePicker';
+import { GameState, Replay, KeyBindings, SaveData, SaveFile, Memory, UnlockMode } from './types';
+import { MEMORY_POOL, UNLOCK_MODE } from './memories';
+import { loadMemoryPool } from './manifest';
+import { syncOfflineMemories, removeMemoryOffline } from './offline';
+import { OUTFITS } from './outfits';
+import {
+  loadSave, writeSave, defaultSaveFile, activeProfile, updateActiveSave, visibleMemoryIds,
+  downloadSave, parseSaveExport, mergeSaves, toggleFavorite, setMemoryNote,
+} from './save';
+import { SaveStore, openSaveStore } from './storage';
+import { createRng, getSeedFromUrl, randomSeed, seedUrl } from './rng';
+import { addReplay } from './replay';
+import { pickNewMemories } from './unlocks';
+import { memoriesEarned, outfitsUnlockedAt, nextUnlocks } from './progression';
 
 const App: React.FC = () => {
-  const [save, setSave] = useState<SaveData>(loadSave);
+  // The save loads asynchronously — nothing is written back until it has
+  const [store, setStore] = useState<SaveStore | null>(null);
+  const [saveFile, setSaveFile] = useState<SaveFile>(defaultSaveFile);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [pool, setPool] = useState<Memory[]>(MEMORY_POOL);
+  const [unlockMode, setUnlockMode] = useState<UnlockMode>(UNLOCK_MODE);
+  const [manifestProblems, setManifestProblems] = useState<string[] | null>(null);
   const [gameState, setGameState] = useState<GameState>('START');
   const [score, setScore] = useState(0);
   const [isNewHighScore, setIsNewHighScore] = useState(false);
-  const [newlyUnlockedCount, setNewlyUnlockedCount] = useState(0);
+  const [newlyUnlockedIds, setNewlyUnlockedIds] = useState<string[]>([]);
+  const [revealing, setRevealing] = useState(false);
+  const [revealSeen, setRevealSeen] = useState(false);
+  const [showControls, setShowControls] = useState(false);
+  const [showUnlockPreview, setShowUnlockPreview] = useState(false);
+  const [pendingImport, setPendingImport] = useState<SaveData | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  // Everything below reads and writes the active profile's save
+  const save = activeProfile(saveFile).save;
+  // Saves can hold ids the current manifest no longer has — only count the ones we can show
+  const unlockedMemoryIds = visibleMemoryIds(saveFile).filter(id => pool.some(m => m.id === id));
+  const setSave = useCallback((update: (prev: SaveData) => SaveData) => {
+    setSaveFile(file => updateActiveSave(file, update));
+  }, []);
+  // Seed for the current run — a `?seed=` URL parameter pins every run to it
+  const [runSeed, setRunSeed] = useState(() => getSeedFromUrl() ?? randomSeed());
+  const [runId, setRunId] = useState(0); // Remounts GameView on restart, even with a pinned seed
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const [opened, loadedPool] = await Promise.all([openSaveStore(), loadMemoryPool()]);
+      const { file, error } = await loadSave(opened);
+      if (cancelled) return;
+      setPool(loadedPool.pool);
+      setUnlockMode(loadedPool.unlockMode);
+      setManifestProblems(loadedPool.problems);
+      setSaveFile(file);
+      setSaveError(error);
+      setStore(opened);
+    })();
+    return () => { cancelled = true; };
+  }, []);
 
   // Persist save whenever it changes
-  useEffect(() => { writeSave(save); }, [save]);
+  useEffect(() => {
+    if (!store) return;
+    writeSave(store, saveFile).catch(err => console.warn(`Couldn't write save to ${store.name}`, err));
+  }, [saveFile, store]);
+
+  // Keep every unlocked memory's media cached for offline viewing, unless opted out
+  const offlineIds = unlockedMemoryIds.filter(id => !saveFile.offlineExcluded.includes(id)).join(',');
+  useEffect(() => {
+    if (!store || !offlineIds) return;
+    const ids = offlineIds.split(',');
+    const cancel = { cancelled: false };
+    syncOfflineMemories(pool.filter(m => ids.includes(m.id)), cancel);
+    return () => { cancel.cancelled = true; };
+  }, [store, pool, offlineIds]);
+
+  const setMemoryOffline = (memory: Memory, offline: boolean) => {
+    setSaveFile(file => ({
+      ...file,
+      offlineExcluded: offline
+        ? file.offlineExcluded.filter(id => id !== memory.id)
+        : [...new Set([...file.offlineExcluded, memory.id])],
+    }));
+    if (!offline) removeMemoryOffline(memory).catch(err => console.warn(`Couldn't remove "${memory.id}" from the offline cache`, err));
+  };
+
+  const toggleMemoryFavorite = (memory: Memory) => setSave(prev => toggleFavorite(prev, memory.id));
+  const setNote = (memory: Memory, note: string) => setSave(prev => setMemoryNote(prev, memory.id, note));
 
   const currentOutfit = OUTFITS.find(o => o.name === save.selectedOutfit) ?? OUTFITS[0];
-  const availableOutfits = OUTFITS.filter(o => save.totalCollected >= o.unlockScore);
+  const availableOutfits = outfitsUnlockedAt(save.totalCollected);
 
   const cycleOutfit = (dir: number) => {
     const idx = availableOutfits.findIndex(o => o.name === save.selectedOutfit);
@@ -70,49 +108,98 @@ const App: React.FC = () => {
     setSave(prev => ({ ...prev, selectedOutfit: availableOutfits[next].name }));
   };
 
+  const setKeyBindings = useCallback((keyBindings: KeyBindings) => {
+    setSave(prev => ({ ...prev, keyBindings }));
+  }, [setSave]);
+
+  const handleImportFile = async (file: File | undefined) => {
+    if (!file) return;
+    setImportError(null);
+    try {
+      setPendingImport(parseSaveExport(await file.text(), pool.map(m => m.id)));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const applyImport = (mode: 'merge' | 'replace') => {
+    if (!pendingImport) return;
+    setSave(prev => mode === 'merge'
+      ? mergeSaves(prev, pendingImport)
+      // Controls belong to the device, not the progress
+      : { ...pendingImport, keyBindings: prev.keyBindings });
+    setPendingImport(null);
+  };
+
   const startGame = () => {
     setScore(0);
     setIsNewHighScore(false);
-    setNewlyUnlockedCount(0);
+    setNewlyUnlockedIds([]);
+    setRevealSeen(false);
+    setRunSeed(getSeedFromUrl() ?? randomSeed());
+    setRunId(id => id + 1);
     setGameState('PLAYING');
   };
 
-  const endGame = useCallback((finalScore: number) => {
+  const endGame = useCallback((finalScore: number, replay: Replay) => {
     setScore(finalScore);
-    setSave(prev => {
+    setSaveFile(file => updateActiveSave(file, prev => {
       const newTotal = prev.totalCollected + finalScore;
       const beaten = finalScore > prev.highScore;
       setIsNewHighScore(beaten);
 
       // How many total memories should be unlocked based on cumulative score
-      const totalMemoriesEarned = Math.min(Math.ceil(newTotal / 5), MEMORY_POOL.length);
-      const currentUnlocked = prev.unlockedMemoryIds.length;
+      // Ids that left the pool don't count, so removed memories are replaced by new ones
+      const totalMemoriesEarned = memoriesEarned(newTotal, pool.length);
+      const currentUnlocked = prev.unlockedMemoryIds.filter(id => pool.some(m => m.id === id)).length;
       const toUnlock = Math.max(0, totalMemoriesEarned - currentUnlocked);
-      const newIds = pickNewMemories(prev.unlockedMemoryIds, toUnlock);
-      setNewlyUnlockedCount(newIds.length);
+      // With shared memories, skip ones another profile already has. Memories still
+      // waiting on their unlock conditions stay owed until a later run.
+      const newIds = pickNewMemories(pool, visibleMemoryIds(file), toUnlock, {
+        mode: unlockMode,
+        totalCollected: newTotal,
+        random: createRng(runSeed).next,
+      });
+      setNewlyUnlockedIds(newIds);
 
-      const newUnlockedOutfits = OUTFITS.filter(o => newTotal >= o.unlockScore).map(o => o.name);
+      const newUnlockedOutfits = outfitsUnlockedAt(newTotal).map(o => o.name);
       return {
         ...prev,
         highScore: beaten ? finalScore : prev.highScore,
         totalCollected: newTotal,
         unlockedMemoryIds: [...prev.unlockedMemoryIds, ...newIds],
         unlockedOutfits: newUnlockedOutfits,
+        replays: addReplay(prev.replays, replay),
       };
-    });
+    }));
     setGameState('GAMEOVER');
-  }, []);
+  }, [runSeed, pool, unlockMode]);
 
-  const openMemories = () => setGameState('MEMORIES');
+  const openMemories = () => {
+    setRevealing(false);
+    setRevealSeen(true);
+    setGameState('MEMORIES');
+  };
+  // New unlocks are caught and revealed one by one the first time, then it's straight to the book
+  const openNewMemories = () => (revealSeen ? openMemories() : setRevealing(true));
+  const newlyUnlocked = newlyUnlockedIds
+    .map(id => pool.find(m => m.id === id))
+    .filter((m): m is Memory => m !== undefined);
   const backToMenu = () => setGameState('START');
+  const watchReplay = () => setGameState('REPLAY');
+  const exitReplay = () => setGameState('GAMEOVER');
 
-  // Next outfit to unlock
-  const nextLock = OUTFITS.find(o => save.totalCollected < o.unlockScore);
+  const lastReplay = save.replays[0];
+  const replayOutfit = OUTFITS.find(o => o.name === lastReplay?.outfit) ?? currentOutfit;
+
+  // Next memory and outfit to unlock
+  const next = nextUnlocks(save.totalCollected, pool.length);
+  const toNextMemory = next.memoryAt === null ? null : next.memoryAt - save.totalCollected;
 
   return (
-    <div className={`min-h-screen bg-rose-50 text-rose-900 overflow-hidden flex flex-col items-center justify-center ${gameState === 'PLAYING' ? '' : 'p-4'}`}>
+    <div className={`min-h-screen bg-rose-50 text-rose-900 overflow-hidden flex flex-col items-center justify-center ${gameState === 'PLAYING' || gameState === 'REPLAY' ? '' : 'p-4'}`}>
       {/* Background Decor (Only on Menu) */}
-      {gameState !== 'PLAYING' && (
+      {gameState !== 'PLAYING' && gameState !== 'REPLAY' && (
         <div className="fixed inset-0 pointer-events-none opacity-20">
           {[...Array(20)].map((_, i) => (
             <Heart
@@ -128,16 +215,61 @@ const App: React.FC = () => {
         </div>
       )}
 
-      {gameState === 'START' && (
+      {!store && (
+        <div className="relative z-10 flex flex-col items-center gap-4 text-rose-400">
+          <div className="p-4 bg-rose-100 rounded-full float-animation">
+            <Heart className="w-12 h-12 text-rose-500 fill-current animate-pulse" />
+          </div>
+          <p className="font-semibold">Loading your memories…</p>
+        </div>
+      )}
+
+      {store && gameState === 'START' && (
         <div className="relative z-10 text-center max-w-md w-full bg-white/80 backdrop-blur-sm p-8 rounded-3xl shadow-xl border-4 border-rose-200 animate-in fade-in duration-500">
           <div className="flex justify-center mb-6">
             <div className="p-4 bg-rose-100 rounded-full float-animation">
               <Heart className="w-16 h-16 text-rose-500 fill-current" />
             </div>
           </div>
+          {saveError && (
+            <div className="mb-4 p-3 bg-amber-50 rounded-2xl border border-amber-200 text-left flex items-start gap-2">
+              <AlertTriangle size={18} className="text-amber-500 shrink-0 mt-0.5" />
+              <div className="flex-1 text-xs text-amber-700">
+                <p className="font-bold">Your saved progress couldn't be loaded, so we started fresh.</p>
+                <p className="mt-1">A backup was kept on this device. ({saveError})</p>
+              </div>
+              <button onClick={() => setSaveError(null)} className="p-0.5 hover:bg-amber-100 rounded-full">
+                <X size={14} className="text-amber-500" />
+              </button>
+            </div>
+          )}
+
+          {manifestProblems && (
+            <div className="mb-4 p-3 bg-amber-50 rounded-2xl border border-amber-200 text-left flex items-start gap-2">
+              <AlertTriangle size={18} className="text-amber-500 shrink-0 mt-0.5" />
+              <div className="flex-1 text-xs text-amber-700">
+                <p className="font-bold">The memory list couldn't be read, so the built-in memories are shown.</p>
+                <ul className="mt-1 list-disc pl-4 max-h-24 overflow-y-auto">
+                  {manifestProblems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              </div>
+              <button onClick={() => setManifestProblems(null)} className="p-0.5 hover:bg-amber-100 rounded-full">
+                <X size={14} className="text-amber-500" />
+              </button>
+            </div>
+          )}
+
+          {store.name === 'memory' && (
+            <p className="mb-4 text-xs text-amber-600">
+              This browser is blocking storage, so progress won't be kept after you close the page. Use Export save to keep it.
+            </p>
+          )}
+
           <h1 className="text-4xl font-bold mb-2 text-rose-600">Poke-Memories</h1>
           <p className="text-rose-400 mb-4 italic">Skate through dreams, collect love.</p>
 
+          <ProfilePicker file={saveFile} onChange={setSaveFile} />
+
           {/* High Score */}
           {save.highScore > 0 && (
             <div className="mb-4 flex items-center justify-center gap-2 text-rose-500">
@@ -162,12 +294,35 @@ const App: React.FC = () => {
                   <ChevronRight size={20} className="text-rose-400" />
                 </button>
               </div>
-              {nextLock && (
-                <p className="text-xs text-rose-300 mt-1">Next: {nextLock.name} at {nextLock.unlockScore} total</p>
-              )}
             </div>
           )}
 
+          <div className="-mt-2 mb-4 flex flex-col items-center gap-1 text-xs text-rose-300">
+            {(next.memoryAt !== null || next.outfit) && (
+              <p>
+                Next:{' '}
+                {[
+                  next.memoryAt !== null && `a memory at ${next.memoryAt} total`,
+                  next.outfit && `${next.outfit.outfit.name} at ${next.outfit.at} total`,
+                ].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            <button
+              onClick={() => setShowUnlockPreview(true)}
+              className="flex items-center gap-1 font-semibold text-rose-400 hover:text-rose-500 transition-colors"
+            >
+              <ListChecks size={13} /> What unlocks when
+            </button>
+          </div>
+
+          {showControls && (
+            <ControlsSettings
+              bindings={save.keyBindings}
+              onChange={setKeyBindings}
+              onClose={() => setShowControls(false)}
+            />
+          )}
+
           <div className="space-y-4">
             <button
               onClick={startGame}
@@ -179,15 +334,91 @@ const App: React.FC = () => {
               onClick={openMemories}
               className="w-full flex items-center justify-center gap-2 bg-pink-100 hover:bg-pink-200 text-pink-600 py-3 rounded-2xl font-semibold transition-all"
             >
-              <BookHeart /> My Memory Book ({save.unlockedMemoryIds.length} / {MEMORY_POOL.length})
+              <BookHeart /> My Memory Book ({unlockedMemoryIds.length} / {pool.length})
             </button>
+            {!showControls && (
+              <button
+                onClick={() => setShowControls(true)}
+                className="mx-auto flex items-center justify-center gap-1.5 text-rose-400 hover:text-rose-500 text-sm font-semibold transition-colors"
+              >
+                <Gamepad2 size={16} /> Controls
+              </button>
+            )}
+            <div className="flex items-center justify-center gap-4 text-sm font-semibold">
+              <button
+                onClick={() => downloadSave(save)}
+                className="flex items-center gap-1.5 text-rose-400 hover:text-rose-500 transition-colors"
+              >
+                <Download size={16} /> Export save
+              </button>
+              <button
+                onClick={() => importInput.current?.click()}
+                className="flex items-center gap-1.5 text-rose-400 hover:text-rose-500 transition-colors"
+              >
+                <Upload size={16} /> Import save
+              </button>
+              <input
+                ref={importInput}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={e => {
+                  handleImportFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {importError && (
+              <p className="text-xs text-amber-600">Couldn't import: {importError}</p>
+            )}
           </div>
 
         </div>
       )}
 
+      {revealing && gameState === 'GAMEOVER' && (
+        <UnlockReveal
+          memories={newlyUnlocked}
+          onOpenBook={openMemories}
+          onClose={() => {
+            setRevealing(false);
+            setRevealSeen(true);
+          }}
+        />
+      )}
+
+      {showUnlockPreview && (
+        <UnlockPreview
+          poolSize={pool.length}
+          totalCollected={save.totalCollected}
+          onClose={() => setShowUnlockPreview(false)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportPreview
+          current={save}
+          incoming={pendingImport}
+          pool={pool}
+          onMerge={() => applyImport('merge')}
+          onReplace={() => applyImport('replace')}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
       {gameState === 'PLAYING' && (
-        <GameView onEnd={endGame} outfit={currentOutfit} />
+        <GameView
+          key={runId}
+          onEnd={endGame}
+          outfit={currentOutfit}
+          seed={runSeed}
+          bindings={save.keyBindings}
+          onRestart={startGame}
+          onQuit={backToMenu}
+          totalCollected={save.totalCollected}
+          poolSize={pool.length}
+          highScore={save.highScore}
+        />
       )}
 
       {gameState === 'GAMEOVER' && (
@@ -209,7 +440,14 @@ const App: React.FC = () => {
             <p className="text-rose-300 text-sm mb-4">High Score: {save.highScore}</p>
           )}
 
-          <div className="grid grid-cols-2 gap-4 mb-6">
+          <ProgressMeter
+            from={save.totalCollected - score}
+            total={save.totalCollected}
+            poolSize={pool.length}
+            className="mb-6 p-4 bg-rose-50 rounded-xl border-2 border-rose-200 text-left"
+          />
+
+          <div className="grid grid-cols-2 gap-4 mb-4">
             <button
               onClick={startGame}
               className="flex items-center justify-center gap-2 bg-rose-500 text-white p-4 rounded-2xl font-bold hover:bg-rose-600 transition-colors shadow-lg"
@@ -224,31 +462,72 @@ const App: React.FC = () => {
             </button>
           </div>
 
-          {newlyUnlockedCount > 0 && (
+          {lastReplay && (
+            <button
+              onClick={watchReplay}
+              className="w-full mb-6 flex items-center justify-center gap-2 bg-pink-100 hover:bg-pink-200 text-pink-600 py-3 rounded-2xl font-semibold transition-all"
+            >
+              <Clapperboard size={18} /> Watch replay
+            </button>
+          )}
+
+          {newlyUnlocked.length > 0 && (
             <div className="mt-4 p-4 bg-rose-50 rounded-xl border-2 border-rose-200 text-rose-800">
-              <p className="text-sm font-bold">You unlocked {newlyUnlockedCount} new {newlyUnlockedCount === 1 ? 'memory' : 'memories'}!</p>
+              <p className="text-sm font-bold">You unlocked {newlyUnlocked.length} new {newlyUnlocked.length === 1 ? 'memory' : 'memories'}!</p>
               <button
-                onClick={openMemories}
+                onClick={openNewMemories}
                 className="mt-2 text-rose-600 underline font-semibold flex items-center justify-center gap-1 mx-auto"
               >
-                <BookHeart size={16} /> View Memory Book
+                {revealSeen
+                  ? <><BookHeart size={16} /> View Memory Book</>
+                  : <><Sparkles size={16} /> See what you caught</>}
               </button>
             </div>
           )}
 
-          {newlyUnlockedCount === 0 && score > 0 && save.unlockedMemoryIds.length < MEMORY_POOL.length && (
+          {newlyUnlocked.length === 0 && score > 0 && unlockedMemoryIds.length < pool.length && (
             <div className="mt-4 p-4 bg-rose-50 rounded-xl border-2 border-rose-200 text-rose-800">
               <p className="text-sm">Keep collecting to unlock more memories!</p>
-              <p className="text-xs text-rose-400 mt-1">{save.unlockedMemoryIds.length} / {MEMORY_POOL.length} unlocked</p>
+              <p className="text-xs text-rose-400 mt-1">
+                {toNextMemory !== null && `${toNextMemory} more ${toNextMemory === 1 ? 'Pokeball' : 'Pokeballs'} until the next one · `}
+                {unlockedMemoryIds.length} / {pool.length} unlocked
+              </p>
             </div>
           )}
 
+          <p className="mt-4 text-xs text-rose-300">
+            Seed: <a href={seedUrl(runSeed)} className="font-mono underline hover:text-rose-400">{runSeed}</a>
+          </p>
+
         </div>
       )}
 
+      {gameState === 'REPLAY' && lastReplay && (
+        <GameView
+          onEnd={endGame}
+          outfit={replayOutfit}
+          seed={lastReplay.seed}
+          bindings={save.keyBindings}
+          onRestart={startGame}
+          onQuit={backToMenu}
+          totalCollected={save.totalCollected}
+          poolSize={pool.length}
+          highScore={save.highScore}
+          replay={lastReplay}
+          onExitReplay={exitReplay}
+        />
+      )}
+
       {gameState === 'MEMORIES' && (
         <MemoryGallery
-          unlockedIds={save.unlockedMemoryIds}
+          pool={pool}
+          unlockedIds={unlockedMemoryIds}
+          offlineExcluded={saveFile.offlineExcluded}
+          onSetOffline={setMemoryOffline}
+          favoriteIds={save.favoriteMemoryIds}
+          notes={save.memoryNotes}
+          onToggleFavorite={toggleMemoryFavorite}
+          onSetNote={setNote}
           onBack={backToMenu}
         />
       )}
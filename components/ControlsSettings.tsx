@@ -0,0 +1,111 @@
+
+import { useEffect, useState } from 'react';
+import { Keyboard, Gamepad2, Plus, X, RotateCcw } from 'lucide-react';
+import { KeyBindings, InputAction } from '../types';
+import {
+  DEFAULT_KEY_BINDINGS, INPUT_ACTIONS, Device,
+  bindInput, unbindInput, keyLabel, buttonLabel, firstPressedButton,
+} from '../controls';
+
+interface ControlsSettingsProps {
+  bindings: KeyBindings;
+  onChange: (bindings: KeyBindings) => void;
+  onClose: () => void;
+}
+
+const ControlsSettings: React.FC<ControlsSettingsProps> = ({ bindings, onChange, onClose }) => {
+  // Which slot is waiting for a key/button press
+  const [listening, setListening] = useState<{ device: Device; action: InputAction } | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+
+    if (listening.device === 'keys') {
+      const handler = (e: KeyboardEvent) => {
+        e.preventDefault();
+        onChange(bindInput(bindings, 'keys', listening.action, e.code));
+        setListening(null);
+      };
+      window.addEventListener('keydown', handler);
+      return () => window.removeEventListener('keydown', handler);
+    }
+
+    // The Gamepad API has no button events — poll until something is pressed
+    let frame = requestAnimationFrame(function poll() {
+      const button = firstPressedButton();
+      if (button !== null) {
+        onChange(bindInput(bindings, 'gamepad', listening.action, button));
+        setListening(null);
+      } else {
+        frame = requestAnimationFrame(poll);
+      }
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [listening, bindings, onChange]);
+
+  const renderRow = (device: Device, action: InputAction) => {
+    const values: (string | number)[] = bindings[device][action];
+    const isListening = listening?.device === device && listening.action === action;
+    return (
+      <div className="flex flex-wrap items-center gap-1.5">
+        {device === 'keys'
+          ? <Keyboard size={14} className="text-rose-300 mr-1" />
+          : <Gamepad2 size={14} className="text-rose-300 mr-1" />}
+        {values.map(value => (
+          <button
+            key={value}
+            onClick={() => onChange(unbindInput(bindings, device, action, value))}
+            className="flex items-center gap-1 px-2 py-0.5 bg-white border border-rose-200 rounded-lg text-xs font-semibold text-rose-600 hover:border-rose-400 transition-colors"
+          >
+            {typeof value === 'string' ? keyLabel(value) : buttonLabel(value)}
+            <X size={10} className="text-rose-300" />
+          </button>
+        ))}
+        <button
+          onClick={() => setListening(isListening ? null : { device, action })}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded-lg text-xs font-semibold transition-colors ${
+            isListening ? 'bg-rose-500 text-white animate-pulse' : 'bg-rose-100 text-rose-500 hover:bg-rose-200'
+          }`}
+        >
+          {isListening
+            ? (device === 'keys' ? 'Press a key…' : 'Press a button…')
+            : <><Plus size={10} /> Add</>}
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-rose-50 rounded-2xl border border-rose-200 text-left">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-bold text-rose-600">Controls</h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => { setListening(null); onChange(DEFAULT_KEY_BINDINGS); }}
+            className="p-1.5 hover:bg-rose-100 rounded-full transition-colors"
+            title="Reset to defaults"
+          >
+            <RotateCcw size={16} className="text-rose-400" />
+          </button>
+          <button onClick={onClose} className="p-1.5 hover:bg-rose-100 rounded-full transition-colors">
+            <X size={16} className="text-rose-400" />
+          </button>
+        </div>
+      </div>
+      <div className="space-y-3">
+        {INPUT_ACTIONS.map(({ action, label }) => (
+          <div key={action}>
+            <p className="text-xs font-semibold text-rose-400 mb-1">{label}</p>
+            <div className="space-y-1.5">
+              {renderRow('keys', action)}
+              {renderRow('gamepad', action)}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-rose-300 mt-3">Tapping the screen always jumps.</p>
+    </div>
+  );
+};
+
+export default ControlsSettings;
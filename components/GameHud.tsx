@@ -0,0 +1,112 @@
+import { Heart, Trophy, Flame, Zap, Magnet, Shield } from 'lucide-react';
+import { EngineState, COMBO_WINDOW_MS, POWER_UP_MS } from '../engine';
+
+/** What the HUD shows, read off the engine once per rendered frame */
+export interface HudSnapshot {
+  score: number;
+  combo: number;            // Catches in a row — also the score multiplier
+  comboLeft: number;        // 0–1 of the combo window left
+  doubleScoreLeft: number;  // 0–1 of the power-up left
+  magnetLeft: number;
+  shield: boolean;
+}
+
+// Bars move in steps of 1/BAR_STEPS, so React only re-renders when one visibly changes
+const BAR_STEPS = 50;
+
+function remaining(timer: number, duration: number): number {
+  return Math.ceil(Math.max(0, Math.min(1, timer / duration)) * BAR_STEPS) / BAR_STEPS;
+}
+
+export function hudSnapshot(state: EngineState): HudSnapshot {
+  return {
+    score: Math.floor(state.score),
+    combo: state.comboCount,
+    comboLeft: state.comboCount > 0 ? remaining(state.comboTimer, COMBO_WINDOW_MS) : 0,
+    doubleScoreLeft: remaining(state.doubleScoreTimer, POWER_UP_MS),
+    magnetLeft: remaining(state.magnetTimer, POWER_UP_MS),
+    shield: state.shieldActive,
+  };
+}
+
+export function sameHud(a: HudSnapshot, b: HudSnapshot): boolean {
+  return (Object.keys(a) as (keyof HudSnapshot)[]).every(key => a[key] === b[key]);
+}
+
+/* ─── A draining bar for a timed effect ─── */
+const TimerBar: React.FC<{ icon: React.ReactNode; label: string; left: number; duration: number; fill: string }> = ({
+  icon, label, left, duration, fill,
+}) => (
+  <div className="w-40 bg-white/80 backdrop-blur-md px-3 py-1.5 rounded-xl border-2 border-pink-200 shadow-lg">
+    <div className="flex items-center justify-between text-[11px] font-bold text-rose-600 mb-1">
+      <span className="flex items-center gap-1">{icon} {label}</span>
+      <span className="font-mono text-rose-400">{Math.ceil(left * duration / 1000)}s</span>
+    </div>
+    <div className="h-1.5 rounded-full bg-rose-100 overflow-hidden">
+      <div className={`h-full rounded-full ${fill} transition-[width] duration-100 ease-linear`} style={{ width: `${left * 100}%` }} />
+    </div>
+  </div>
+);
+
+interface GameHudProps {
+  hud: HudSnapshot;
+  highScore: number;
+  color: string;            // The outfit's colour, for the score
+}
+
+/* ═══════════════════════════════════════════
+   Score, combo and power-ups — top left
+   ═══════════════════════════════════════════ */
+const GameHud: React.FC<GameHudProps> = ({ hud, highScore, color }) => {
+  const beatingBest = highScore > 0 && hud.score > highScore;
+
+  return (
+    <div className="flex flex-col items-start gap-2 pointer-events-none select-none">
+      <div className="bg-white/80 backdrop-blur-md px-4 py-2 rounded-2xl border-2 border-pink-200 shadow-xl">
+        <div className="flex items-center gap-2 font-black text-3xl leading-none" style={{ color }}>
+          <Heart size={22} className="fill-current" /> {hud.score}
+        </div>
+        {highScore > 0 && (
+          <div className={`flex items-center gap-1 text-xs font-bold mt-1 ${beatingBest ? 'text-amber-500' : 'text-rose-400'}`}>
+            <Trophy size={12} /> {beatingBest ? 'New best!' : `Best ${highScore}`}
+          </div>
+        )}
+      </div>
+
+      {hud.combo >= 2 && (
+        <TimerBar
+          icon={<Flame size={12} />}
+          label={`x${hud.combo} combo`}
+          left={hud.comboLeft}
+          duration={COMBO_WINDOW_MS}
+          fill="bg-gradient-to-r from-amber-300 to-orange-500"
+        />
+      )}
+      {hud.doubleScoreLeft > 0 && (
+        <TimerBar
+          icon={<Zap size={12} />}
+          label="2x score"
+          left={hud.doubleScoreLeft}
+          duration={POWER_UP_MS}
+          fill="bg-gradient-to-r from-sky-400 to-blue-500"
+        />
+      )}
+      {hud.magnetLeft > 0 && (
+        <TimerBar
+          icon={<Magnet size={12} />}
+          label="Magnet"
+          left={hud.magnetLeft}
+          duration={POWER_UP_MS}
+          fill="bg-gradient-to-r from-violet-400 to-purple-500"
+        />
+      )}
+      {hud.shield && (
+        <div className="flex items-center gap-1 bg-purple-500/90 text-white px-3 py-1.5 rounded-xl text-xs font-bold shadow-lg">
+          <Shield size={12} className="fill-current" /> Shield
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GameHud;
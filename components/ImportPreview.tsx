@@ -0,0 +1,91 @@
+import { Upload, X, ArrowRight, Merge, Replace } from 'lucide-react';
+import { SaveData, Memory } from '../types';
+import { diffSaves } from '../save';
+
+interface ImportPreviewProps {
+  current: SaveData;
+  incoming: SaveData;
+  pool: Memory[];
+  onMerge: () => void;
+  onReplace: () => void;
+  onCancel: () => void;
+}
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({ current, incoming, pool, onMerge, onReplace, onCancel }) => {
+  const diff = diffSaves(current, incoming);
+  const captionFor = (id: string) => pool.find(m => m.id === id)?.caption ?? id;
+
+  const row = (label: string, [from, to]: [number, number]) => (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-rose-400">{label}</span>
+      <span className="flex items-center gap-2 font-semibold text-rose-600">
+        {from} <ArrowRight size={12} className="text-rose-300" />
+        <span className={to < from ? 'text-amber-600' : ''}>{to}</span>
+      </span>
+    </div>
+  );
+
+  const list = (label: string, items: string[], tone: 'add' | 'remove') => items.length > 0 && (
+    <div className="text-sm">
+      <p className={tone === 'add' ? 'text-emerald-600 font-semibold' : 'text-amber-600 font-semibold'}>
+        {label} ({items.length})
+      </p>
+      <p className="text-xs text-rose-400 mt-0.5">{items.join(', ')}</p>
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+      style={{ backgroundColor: 'rgba(0,0,0,0.5)', animation: 'backdropFadeIn 0.25s ease-out' }}
+      onClick={onCancel}
+    >
+      <div
+        className="relative max-w-sm w-full bg-white p-6 rounded-3xl border-4 border-rose-200 shadow-2xl text-left"
+        style={{ animation: 'contentReveal 0.3s ease-out both' }}
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onCancel} className="absolute top-3 right-3 p-1.5 hover:bg-rose-50 rounded-full transition-colors">
+          <X size={18} className="text-rose-400" />
+        </button>
+        <h3 className="flex items-center gap-2 font-bold text-xl text-rose-600 mb-4">
+          <Upload size={20} /> Import save
+        </h3>
+
+        <div className="space-y-2 p-3 bg-rose-50 rounded-2xl mb-3">
+          {row('High score', diff.highScore)}
+          {row('Total collected', diff.totalCollected)}
+        </div>
+
+        <div className="space-y-2 mb-5 max-h-40 overflow-y-auto">
+          {list('Memories gained', diff.memoriesAdded.map(captionFor), 'add')}
+          {list('Memories lost if replaced', diff.memoriesRemoved.map(captionFor), 'remove')}
+          {list('Outfits gained', diff.outfitsAdded, 'add')}
+          {list('Outfits lost if replaced', diff.outfitsRemoved, 'remove')}
+          {list('Notes gained', diff.notesAdded.map(captionFor), 'add')}
+          {list('Notes rewritten if replaced', diff.notesChanged.map(captionFor), 'remove')}
+        </div>
+
+        <div className="space-y-2">
+          <button
+            onClick={onMerge}
+            className="w-full flex items-center justify-center gap-2 bg-rose-500 hover:bg-rose-600 text-white py-3 rounded-2xl font-bold transition-colors shadow-lg"
+          >
+            <Merge size={18} /> Merge with this device
+          </button>
+          <button
+            onClick={onReplace}
+            className="w-full flex items-center justify-center gap-2 bg-gray-100 hover:bg-gray-200 text-gray-600 py-3 rounded-2xl font-semibold transition-colors"
+          >
+            <Replace size={18} /> Replace this device's progress
+          </button>
+        </div>
+        <p className="text-xs text-rose-300 mt-3 text-center">
+          Merge keeps the best scores and every unlock from both, and this device's notes.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,100 @@
+import { useState, useRef } from 'react';
+import { VideoOff } from 'lucide-react';
+import { MediaItem } from '../types';
+import { videoSources, mightPlay } from '../media';
+
+// Previews shared by the memory book, the slideshow and the unlock reveal
+
+/* ─── <source> list for a video — `onUnplayable` fires once the last one fails ─── */
+export const VideoSources: React.FC<{
+  item: MediaItem;
+  onUnplayable: () => void;
+}> = ({ item, onUnplayable }) => {
+  const sources = videoSources(item);
+  return (
+    <>
+      {sources.map((source, i) => (
+        <source
+          key={source.url}
+          src={source.url}
+          type={source.mimeType}
+          onError={i === sources.length - 1 ? onUnplayable : undefined}
+        />
+      ))}
+    </>
+  );
+};
+
+/* ─── Video Thumbnail ─── */
+export const VideoPreview: React.FC<{
+  item: MediaItem;
+  alt: string;
+  className?: string;
+}> = ({ item, alt, className = '' }) => {
+  const { thumbnail } = item;
+  const [thumbFailed, setThumbFailed] = useState(false);
+  const [unplayable, setUnplayable] = useState(() => !mightPlay(videoSources(item)));
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // If thumbnail image is provided and hasn't errored, try it first
+  if (thumbnail && !thumbFailed) {
+    return (
+      <img
+        src={thumbnail}
+        alt={alt}
+        loading="lazy"
+        decoding="async"
+        className={className}
+        onError={() => setThumbFailed(true)}
+      />
+    );
+  }
+
+  if (unplayable) {
+    return (
+      <div className={`flex items-center justify-center bg-rose-100 ${className}`}>
+        <VideoOff size={28} className="text-rose-300" />
+      </div>
+    );
+  }
+
+  // Fall back to video element that seeks to 0.5s for a preview frame
+  return (
+    <video
+      ref={videoRef}
+      muted
+      playsInline
+      preload="auto"
+      className={className}
+      onLoadedData={() => {
+        if (videoRef.current) {
+          videoRef.current.currentTime = 0.5;
+        }
+      }}
+    >
+      <VideoSources item={item} onUnplayable={() => setUnplayable(true)} />
+    </video>
+  );
+};
+
+/* ─── Image Thumbnail ─── */
+export const ImagePreview: React.FC<{
+  item: MediaItem;
+  alt: string;
+  className?: string;
+}> = ({ item, alt, className = '' }) => {
+  // Small WebP when we have one, the full photo if it's missing or fails
+  const [thumbFailed, setThumbFailed] = useState(false);
+  return (
+    <img
+      src={item.thumbnail && !thumbFailed ? item.thumbnail : item.url}
+      alt={alt}
+      width={item.width}
+      height={item.height}
+      loading="lazy"
+      decoding="async"
+      className={className}
+      onError={() => setThumbFailed(true)}
+    />
+  );
+};
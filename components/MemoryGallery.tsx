@@ -1,14 +1,33 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { ArrowLeft, Heart, Lock, X, Play } from 'lucide-react';
+import { ArrowLeft, Heart, Lock, X, Play, VideoOff, Download, CloudCheck, CloudDownload, CloudOff, WifiOff, BookOpen, CalendarDays, ChevronLeft, ChevronRight, Presentation, Search, Tag, MapPin } from 'lucide-react';
 import { Memory, MediaItem } from '../types';
-import { MEMORY_POOL } from '../memories';
+import { MAX_NOTE_LENGTH } from '../save';
+import { videoSources, mightPlay } from '../media';
+import { buildTimeline, parseMemoryDate, seasonOf } from '../timeline';
+import Slideshow from './Slideshow';
+import PokeballOpen from './PokeballOpen';
+import { VideoSources, VideoPreview, ImagePreview } from './MediaPreview';
+import { MemoryFilter, EMPTY_FILTER, isFiltering, matchesFilter, tagsIn, readFilterFromUrl, writeFilterToUrl } from '../filter';
+import { StorageUsage, offlineSupported, offlineMemoryIds, onOfflineChange, storageUsage, formatBytes } from '../offline';
 
 interface MemoryGalleryProps {
+  pool: Memory[];
   unlockedIds: string[];
+  offlineExcluded: string[];
+  onSetOffline: (memory: Memory, offline: boolean) => void;
+  favoriteIds: string[];
+  notes: Record<string, string>;
+  onToggleFavorite: (memory: Memory) => void;
+  onSetNote: (memory: Memory, note: string) => void;
   onBack: () => void;
 }
 
+/** Whether a card can be opened offline — null when it doesn't matter (online, not saved) */
+type OfflineStatus = 'saved' | 'unavailable' | null;
+
+type GalleryView = 'scrapbook' | 'timeline';
+
 const TAPE_COLORS = ['#f59e0b', '#ec4899', '#3b82f6', '#34d399', '#a78bfa'];
 
 function getRotation(index: number): number {
@@ -19,92 +38,27 @@ function getSmallRotation(index: number): number {
   return ((index * 5 + 2) % 5 - 2);
 }
 
-/* ─── Video Thumbnail ─── */
-const VideoPreview: React.FC<{
-  src: string;
-  thumbnail?: string;
-  alt: string;
-  className?: string;
-}> = ({ src, thumbnail, alt, className = '' }) => {
-  const [thumbFailed, setThumbFailed] = useState(false);
-  const videoRef = useRef<HTMLVideoElement>(null);
-
-  // If thumbnail image is provided and hasn't errored, try it first
-  if (thumbnail && !thumbFailed) {
-    return (
-      <img
-        src={thumbnail}
-        alt={alt}
-        className={className}
-        onError={() => setThumbFailed(true)}
-      />
-    );
-  }
-
-  // Fall back to video element that seeks to 0.5s for a preview frame
-  return (
-    <video
-      ref={videoRef}
-      muted
-      playsInline
-      preload="auto"
-      className={className}
-      onLoadedData={() => {
-        if (videoRef.current) {
-          videoRef.current.currentTime = 0.5;
-        }
-      }}
-    >
-      <source src={src} />
-    </video>
-  );
-};
-
-/* ─── Pokeball Open Animation Overlay ─── */
-const PokeballOpen: React.FC<{ onComplete: () => void }> = ({ onComplete }) => {
-  useEffect(() => {
-    const timer = setTimeout(onComplete, 900);
-    return () => clearTimeout(timer);
-  }, [onComplete]);
-
-  return (
-    <div className="fixed inset-0 z-[70] flex items-center justify-center pointer-events-none">
-      <div
-        className="absolute w-32 h-32 rounded-full border-4 border-rose-300"
-        style={{ animation: 'pokeballSpark 0.8s ease-out forwards' }}
-      />
-      <div
-        className="absolute"
-        style={{ animation: 'pokeballTopOpen 0.7s ease-in forwards' }}
-      >
-        <svg width="120" height="60" viewBox="0 0 120 60">
-          <path d="M10,60 A50,50 0 0,1 110,60" fill="#e11d48" stroke="#881337" strokeWidth="3" />
-          <rect x="0" y="56" width="120" height="4" fill="#881337" />
-          <circle cx="60" cy="60" r="14" fill="white" stroke="#881337" strokeWidth="3" />
-          <circle cx="60" cy="60" r="6" fill="#e11d48" stroke="#881337" strokeWidth="2" />
-        </svg>
-      </div>
-      <div
-        className="absolute"
-        style={{ animation: 'pokeballBottomOpen 0.7s ease-in forwards' }}
-      >
-        <svg width="120" height="60" viewBox="0 0 120 60">
-          <rect x="0" y="0" width="120" height="4" fill="#881337" />
-          <path d="M10,0 A50,50 0 0,0 110,0" fill="white" stroke="#881337" strokeWidth="3" />
-          <circle cx="60" cy="0" r="14" fill="white" stroke="#881337" strokeWidth="3" />
-          <circle cx="60" cy="0" r="6" fill="#fda4af" stroke="#881337" strokeWidth="2" />
-        </svg>
-      </div>
-      <div
-        className="absolute w-40 h-40 rounded-full"
-        style={{
-          background: 'radial-gradient(circle, rgba(251,113,133,0.5) 0%, rgba(251,113,133,0) 70%)',
-          animation: 'pokeballGlow 0.8s ease-out forwards',
-        }}
-      />
+/* ─── Shown when the browser can't play any version of a video ─── */
+const UnplayableVideo: React.FC<{ item: MediaItem }> = ({ item }) => (
+  <div className="flex flex-col items-center justify-center gap-3 py-16 px-6 text-center">
+    <div className="w-14 h-14 rounded-full bg-rose-100 flex items-center justify-center">
+      <VideoOff size={26} className="text-rose-400" />
     </div>
-  );
-};
+    <p className="font-handwriting text-2xl text-rose-600">This video can't play here</p>
+    <p className="text-sm text-rose-400 max-w-xs">
+      This browser doesn't support its format. Download it to watch it on your device.
+    </p>
+    <a
+      href={item.url}
+      download
+      target="_blank"
+      rel="noreferrer"
+      className="flex items-center gap-2 bg-rose-500 hover:bg-rose-600 text-white px-5 py-2.5 rounded-2xl font-semibold transition-colors shadow-md"
+    >
+      <Download size={16} /> Download video
+    </a>
+  </div>
+);
 
 /* ─── Media Thumbnail (in the memory detail grid) ─── */
 const MediaThumb: React.FC<{
@@ -135,8 +89,7 @@ const MediaThumb: React.FC<{
         {item.type === 'video' ? (
           <>
             <VideoPreview
-              src={item.url}
-              thumbnail={item.thumbnail}
+              item={item}
               alt={caption}
               className="w-full h-full object-cover"
             />
@@ -147,8 +100,8 @@ const MediaThumb: React.FC<{
             </div>
           </>
         ) : (
-          <img
-            src={item.url}
+          <ImagePreview
+            item={item}
             alt={caption}
             className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
           />
@@ -158,19 +111,168 @@ const MediaThumb: React.FC<{
   );
 };
 
-/* ─── Full-screen Media Viewer (single item, polaroid-style) ─── */
-const MediaViewer: React.FC<{
+/* ─── Zoomable photo (pinch or wheel to zoom, drag to pan, double-tap or double-click to toggle) ─── */
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+// Two taps this close in time and place are a double-tap. Detected from pointer
+// events — iOS Safari doesn't reliably fire dblclick for touch.
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_DISTANCE = 30;
+const TAP_SLOP = 10;           // A pointer that moved further than this was a drag, not a tap
+
+const ZoomableImage: React.FC<{
   item: MediaItem;
+  alt: string;
+  onZoomChange: (zoomed: boolean) => void;
+}> = ({ item, alt, onZoomChange }) => {
+  const [view, setView] = useState({ scale: 1, x: 0, y: 0 });
+  const viewRef = useRef(view);
+  viewRef.current = view;
+  const imgRef = useRef<HTMLImageElement>(null);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const pinch = useRef<{ distance: number; scale: number } | null>(null);
+  const tapStart = useRef<{ x: number; y: number } | null>(null);
+  const lastTap = useRef<{ x: number; y: number; time: number } | null>(null);
+
+  useEffect(() => { onZoomChange(view.scale > 1); }, [view.scale, onZoomChange]);
+
+  /** Keep the photo covering its frame — no panning past the edges */
+  const clampView = (scale: number, x: number, y: number) => {
+    const s = Math.min(MAX_ZOOM, Math.max(1, scale));
+    const w = imgRef.current?.offsetWidth ?? 0;
+    const h = imgRef.current?.offsetHeight ?? 0;
+    const maxX = (w * (s - 1)) / 2;
+    const maxY = (h * (s - 1)) / 2;
+    return { scale: s, x: Math.min(maxX, Math.max(-maxX, x)), y: Math.min(maxY, Math.max(-maxY, y)) };
+  };
+
+  const handleTap = (e: React.PointerEvent) => {
+    const previous = lastTap.current;
+    if (previous && e.timeStamp - previous.time < DOUBLE_TAP_MS &&
+      Math.hypot(e.clientX - previous.x, e.clientY - previous.y) < DOUBLE_TAP_DISTANCE) {
+      lastTap.current = null;
+      const current = viewRef.current;
+      setView(current.scale > 1 ? { scale: 1, x: 0, y: 0 } : clampView(DOUBLE_TAP_ZOOM, 0, 0));
+      e.stopPropagation();
+    } else {
+      lastTap.current = { x: e.clientX, y: e.clientY, time: e.timeStamp };
+    }
+  };
+
+  const pinchDistance = () => {
+    const [a, b] = [...pointers.current.values()];
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  };
+
+  return (
+    <img
+      ref={imgRef}
+      src={item.url}
+      alt={alt}
+      width={item.width}
+      height={item.height}
+      draggable={false}
+      className="w-full max-h-[70vh] object-contain select-none"
+      style={{
+        transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+        transition: pointers.current.size > 0 ? 'none' : 'transform 0.2s ease-out',
+        touchAction: 'none',
+        cursor: view.scale > 1 ? 'grab' : 'zoom-in',
+      }}
+      onPointerDown={e => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        tapStart.current = pointers.current.size === 1 ? { x: e.clientX, y: e.clientY } : null;
+        if (pointers.current.size === 2) pinch.current = { distance: pinchDistance(), scale: viewRef.current.scale };
+      }}
+      onPointerMove={e => {
+        const last = pointers.current.get(e.pointerId);
+        if (!last) return;
+        pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+        const current = viewRef.current;
+        if (pinch.current && pointers.current.size === 2) {
+          setView(clampView(pinch.current.scale * (pinchDistance() / pinch.current.distance), current.x, current.y));
+        } else if (pointers.current.size === 1 && current.scale > 1) {
+          setView(clampView(current.scale, current.x + e.clientX - last.x, current.y + e.clientY - last.y));
+        }
+      }}
+      onPointerUp={e => {
+        pointers.current.delete(e.pointerId);
+        if (pointers.current.size < 2) pinch.current = null;
+        const start = tapStart.current;
+        if (start && pointers.current.size === 0 && Math.hypot(e.clientX - start.x, e.clientY - start.y) < TAP_SLOP) {
+          handleTap(e);
+        }
+        tapStart.current = null;
+      }}
+      onPointerCancel={e => {
+        pointers.current.delete(e.pointerId);
+        pinch.current = null;
+        tapStart.current = null;
+      }}
+      onWheel={e => {
+        const current = viewRef.current;
+        setView(clampView(current.scale * Math.exp(-e.deltaY * 0.002), current.x, current.y));
+      }}
+    />
+  );
+};
+
+/* ─── Full-screen Media Viewer (one item at a time, polaroid-style) ─── */
+const SWIPE_DISTANCE = 60;
+
+const MediaViewer: React.FC<{
+  media: MediaItem[];
+  startIndex: number;
   caption: string;
   onClose: () => void;
-}> = ({ item, caption, onClose }) => {
+}> = ({ media, startIndex, caption, onClose }) => {
+  const [index, setIndex] = useState(startIndex);
+  const [unplayable, setUnplayable] = useState(false);
+  const [zoomed, setZoomed] = useState(false);
+  const swipeStart = useRef<{ x: number; y: number; id: number } | null>(null);
+  const item = media[index];
+  const hasPrev = index > 0;
+  const hasNext = index < media.length - 1;
+
+  const go = useCallback((step: number) => {
+    setIndex(i => Math.min(media.length - 1, Math.max(0, i + step)));
+  }, [media.length]);
+
+  useEffect(() => {
+    setUnplayable(item.type === 'video' && !mightPlay(videoSources(item)));
+    setZoomed(false);
+  }, [item]);
+
+  // Warm the cache for whichever way they go next — photos in full, videos just their poster
+  useEffect(() => {
+    for (const neighbour of [media[index - 1], media[index + 1]]) {
+      const url = neighbour?.type === 'image' ? neighbour.url : neighbour?.thumbnail;
+      if (url) new Image().src = url;
+    }
+  }, [media, index]);
+
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose();
+      if (e.key === 'ArrowLeft') go(-1);
+      if (e.key === 'ArrowRight') go(1);
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [onClose]);
+  }, [onClose, go]);
+
+  const chevron = (step: number) => (
+    <button
+      onClick={e => { e.stopPropagation(); go(step); }}
+      className={`absolute top-1/2 -translate-y-1/2 ${step < 0 ? 'left-2 md:left-4' : 'right-2 md:right-4'} z-10 w-11 h-11 rounded-full bg-white/90 flex items-center justify-center shadow-lg hover:bg-white transition-colors`}
+      aria-label={step < 0 ? 'Previous' : 'Next'}
+    >
+      {step < 0
+        ? <ChevronLeft size={24} className="text-rose-500" />
+        : <ChevronRight size={24} className="text-rose-500" />}
+    </button>
+  );
 
   return (
     <div
@@ -190,28 +292,47 @@ const MediaViewer: React.FC<{
         <X size={20} className="text-rose-500" />
       </button>
 
+      {media.length > 1 && (
+        <div className="absolute top-5 left-1/2 -translate-x-1/2 z-10 px-3 py-1 rounded-full bg-white/90 text-sm font-bold text-rose-500 shadow-lg">
+          {index + 1} / {media.length}
+        </div>
+      )}
+      {hasPrev && chevron(-1)}
+      {hasNext && chevron(1)}
+
       <div
         onClick={e => e.stopPropagation()}
         className="bg-white p-4 pb-8 rounded-sm shadow-2xl max-w-3xl w-full"
-        style={{ animation: 'contentReveal 0.35s ease-out both' }}
+        style={{ animation: 'contentReveal 0.35s ease-out both', touchAction: 'pan-y' }}
+        onPointerDown={e => {
+          swipeStart.current = e.isPrimary && !zoomed ? { x: e.clientX, y: e.clientY, id: e.pointerId } : null;
+        }}
+        onPointerUp={e => {
+          const start = swipeStart.current;
+          swipeStart.current = null;
+          if (!start || start.id !== e.pointerId) return;
+          const dx = e.clientX - start.x;
+          if (Math.abs(dx) > SWIPE_DISTANCE && Math.abs(dx) > Math.abs(e.clientY - start.y)) go(dx < 0 ? 1 : -1);
+        }}
       >
         <div className="relative overflow-hidden rounded-sm" style={{ backgroundColor: '#fdf8f3' }}>
-          {item.type === 'video' ? (
+          {item.type === 'video' && unplayable ? (
+            <UnplayableVideo item={item} />
+          ) : item.type === 'video' ? (
             <video
               key={item.url}
               controls
               autoPlay
               playsInline
+              poster={item.thumbnail}
+              width={item.width}
+              height={item.height}
               className="w-full max-h-[70vh] object-contain"
             >
-              <source src={item.url} />
+              <VideoSources item={item} onUnplayable={() => setUnplayable(true)} />
             </video>
           ) : (
-            <img
-              src={item.url}
-              alt={caption}
-              className="w-full max-h-[70vh] object-contain"
-            />
+            <ZoomableImage key={item.url} item={item} alt={caption} onZoomChange={setZoomed} />
           )}
         </div>
 
@@ -223,21 +344,98 @@ const MediaViewer: React.FC<{
   );
 };
 
+/* ─── Heart toggle for favourites ─── */
+const FavoriteButton: React.FC<{
+  favorite: boolean;
+  onToggle: () => void;
+  size?: number;
+  className?: string;
+}> = ({ favorite, onToggle, size = 18, className = '' }) => (
+  <button
+    onClick={e => {
+      e.stopPropagation();
+      onToggle();
+    }}
+    className={`rounded-full flex items-center justify-center transition-transform hover:scale-110 active:scale-95 ${className}`}
+    aria-pressed={favorite}
+    aria-label={favorite ? 'Remove from favorites' : 'Add to favorites'}
+    title={favorite ? 'Remove from favorites' : 'Add to favorites'}
+  >
+    <Heart size={size} className={favorite ? 'text-rose-500 fill-rose-500' : 'text-rose-300'} />
+  </button>
+);
+
+/* ─── "What I remember" note — saved while typing pauses, and on the way out ─── */
+const NOTE_SAVE_DELAY = 800;
+
+const MemoryNote: React.FC<{
+  note: string;
+  onSave: (note: string) => void;
+}> = ({ note, onSave }) => {
+  const [draft, setDraft] = useState(note);
+  // A blank draft is the same as no note, which is how it's saved
+  const unsaved = (draft.trim() ? draft : '') !== note;
+  // The parent passes a fresh `onSave` on every render — read it from here so
+  // an unrelated re-render doesn't restart the typing pause
+  const latest = useRef({ draft, unsaved, onSave });
+  latest.current = { draft, unsaved, onSave };
+
+  useEffect(() => {
+    if (!unsaved) return;
+    const timer = window.setTimeout(() => latest.current.onSave(draft), NOTE_SAVE_DELAY);
+    return () => window.clearTimeout(timer);
+  }, [draft, unsaved]);
+
+  // Closing the memory mid-sentence still keeps what was typed
+  useEffect(() => () => {
+    const { draft, unsaved, onSave } = latest.current;
+    if (unsaved) onSave(draft);
+  }, []);
+
+  return (
+    <div className="mt-6 mb-2 max-w-xl mx-auto">
+      <label className="block font-handwriting text-xl text-rose-500 mb-1.5">
+        What I remember about this day
+      </label>
+      <textarea
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={() => unsaved && onSave(draft)}
+        maxLength={MAX_NOTE_LENGTH}
+        rows={3}
+        placeholder="Write it down before it fades…"
+        className="w-full resize-y rounded-xl border border-rose-200 bg-white/80 px-4 py-3 font-handwriting text-lg text-rose-700 placeholder:text-rose-300 outline-none focus:ring-2 focus:ring-rose-300"
+        style={{
+          backgroundImage: 'repeating-linear-gradient(transparent, transparent 27px, rgba(251,113,133,0.15) 28px)',
+          lineHeight: '28px',
+        }}
+      />
+    </div>
+  );
+};
+
 /* ─── Memory Detail (all media shown at once — scrapbook page) ─── */
 const MemoryDetail: React.FC<{
   memory: Memory;
+  offlineEnabled: boolean;
+  offlineSaved: boolean;
+  onSetOffline: (offline: boolean) => void;
+  favorite: boolean;
+  note: string;
+  onToggleFavorite: () => void;
+  onSetNote: (note: string) => void;
   onClose: () => void;
-}> = ({ memory, onClose }) => {
-  const [viewingItem, setViewingItem] = useState<MediaItem | null>(null);
+}> = ({ memory, offlineEnabled, offlineSaved, onSetOffline, favorite, note, onToggleFavorite, onSetNote, onClose }) => {
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null);
   const tapeColor = TAPE_COLORS[parseInt(memory.id.replace(/\D/g, '') || '0') % TAPE_COLORS.length];
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
-      if (e.key === 'Escape' && !viewingItem) onClose();
+      if (e.key === 'Escape' && viewingIndex === null) onClose();
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [onClose, viewingItem]);
+  }, [onClose, viewingIndex]);
 
   return (
     <div
@@ -276,6 +474,11 @@ const MemoryDetail: React.FC<{
         >
           <X size={18} className="text-rose-400" />
         </button>
+        <FavoriteButton
+          favorite={favorite}
+          onToggle={onToggleFavorite}
+          className="absolute top-3 left-3 z-20 w-9 h-9 bg-white/80 shadow-md hover:bg-white"
+        />
 
         {/* Caption header */}
         <div className="px-7 pt-8 pb-5 text-center">
@@ -294,6 +497,30 @@ const MemoryDetail: React.FC<{
               {memory.date}
             </span>
           )}
+          {(memory.location || memory.tags?.length) && (
+            <div className="flex flex-wrap items-center justify-center gap-x-3 gap-y-1 mt-2 text-xs font-semibold text-rose-400">
+              {memory.location && (
+                <span className="inline-flex items-center gap-1"><MapPin size={13} /> {memory.location}</span>
+              )}
+              {memory.tags?.map(tag => (
+                <span key={tag} className="inline-flex items-center gap-1"><Tag size={12} /> {tag}</span>
+              ))}
+            </div>
+          )}
+          {offlineSupported && (
+            <div className="mt-3">
+              <button
+                onClick={() => onSetOffline(!offlineEnabled)}
+                className={`inline-flex items-center gap-1.5 text-xs font-semibold px-3 py-1 rounded-full transition-colors ${
+                  offlineEnabled ? 'bg-rose-100 text-rose-500 hover:bg-rose-200' : 'bg-white text-rose-300 hover:text-rose-400 shadow-sm'
+                }`}
+              >
+                {!offlineEnabled ? <><CloudOff size={14} /> Make available offline</>
+                  : offlineSaved ? <><CloudCheck size={14} /> Available offline</>
+                  : <><CloudDownload size={14} className="animate-pulse" /> Saving for offline…</>}
+              </button>
+            </div>
+          )}
           {/* Gradient divider */}
           <div
             className="mt-5 h-px mx-auto"
@@ -319,10 +546,11 @@ const MemoryDetail: React.FC<{
                 item={item}
                 index={i}
                 caption={memory.caption}
-                onClick={() => setViewingItem(item)}
+                onClick={() => setViewingIndex(i)}
               />
             ))}
           </div>
+          <MemoryNote key={memory.id} note={note} onSave={onSetNote} />
         </div>
 
         {/* Footer */}
@@ -338,11 +566,12 @@ const MemoryDetail: React.FC<{
         </div>
       </div>
 
-      {viewingItem && (
+      {viewingIndex !== null && (
         <MediaViewer
-          item={viewingItem}
+          media={memory.media}
+          startIndex={viewingIndex}
           caption={memory.caption}
-          onClose={() => setViewingItem(null)}
+          onClose={() => setViewingIndex(null)}
         />
       )}
     </div>
@@ -353,15 +582,18 @@ const MemoryDetail: React.FC<{
 const PolaroidCard: React.FC<{
   memory: Memory;
   index: number;
+  offline: OfflineStatus;
+  favorite: boolean;
+  onToggleFavorite: (memory: Memory) => void;
   onOpen: (memory: Memory) => void;
-}> = ({ memory, index, onOpen }) => {
+}> = ({ memory, index, offline, favorite, onToggleFavorite, onOpen }) => {
   const rotation = getRotation(index);
   const tapeColor = TAPE_COLORS[index % TAPE_COLORS.length];
   const firstItem = memory.media[0];
 
   return (
     <div
-      className="break-inside-avoid mb-6 group"
+      className={`break-inside-avoid mb-6 group ${offline === 'unavailable' ? 'opacity-60' : ''}`}
       style={{
         animation: `fadeInUp 0.5s ease-out ${index * 0.07}s both`,
       }}
@@ -399,8 +631,7 @@ const PolaroidCard: React.FC<{
           {firstItem.type === 'video' ? (
             <div className="relative w-full h-full">
               <VideoPreview
-                src={firstItem.url}
-                thumbnail={firstItem.thumbnail}
+                item={firstItem}
                 alt={memory.caption}
                 className="w-full h-full object-cover"
               />
@@ -411,13 +642,24 @@ const PolaroidCard: React.FC<{
               </div>
             </div>
           ) : (
-            <img
-              src={firstItem.url}
+            <ImagePreview
+              item={firstItem}
               alt={memory.caption}
               className="w-full h-full object-cover"
             />
           )}
 
+          {offline && (
+            <div
+              className="absolute top-2 left-2 w-7 h-7 rounded-full bg-white/90 flex items-center justify-center shadow"
+              title={offline === 'saved' ? 'Available offline' : 'Needs an internet connection'}
+            >
+              {offline === 'saved'
+                ? <CloudCheck size={15} className="text-rose-500" />
+                : <CloudOff size={15} className="text-rose-300" />}
+            </div>
+          )}
+
           {/* Media count badge */}
           {memory.media.length > 1 && (
             <div className="absolute top-2 right-2 bg-black/50 text-white text-xs font-bold px-2 py-1 rounded-full">
@@ -427,7 +669,7 @@ const PolaroidCard: React.FC<{
         </div>
 
         {/* Caption area */}
-        <div className="absolute bottom-0 left-0 right-0 px-4 pb-3 pt-1">
+        <div className="absolute bottom-0 left-0 right-0 pl-4 pr-10 pb-3 pt-1">
           <p className="font-handwriting text-lg text-rose-700 leading-tight truncate">
             {memory.caption}
           </p>
@@ -435,6 +677,11 @@ const PolaroidCard: React.FC<{
             <p className="font-handwriting text-sm text-rose-400 mt-0.5">{memory.date}</p>
           )}
         </div>
+        <FavoriteButton
+          favorite={favorite}
+          onToggle={() => onToggleFavorite(memory)}
+          className={`absolute bottom-3 right-2 w-8 h-8 hover:bg-rose-50 ${favorite ? '' : 'opacity-60 group-hover:opacity-100'}`}
+        />
       </div>
     </div>
   );
@@ -478,6 +725,97 @@ const LockedSlot: React.FC<{ index: number }> = ({ index }) => {
   );
 };
 
+/* ─── Timeline (memories by month, oldest first) ─── */
+const TimelineView: React.FC<{
+  pool: Memory[];
+  unlockedIds: string[];
+  offlineStatus: (memory: Memory) => OfflineStatus;
+  onOpen: (memory: Memory) => void;
+}> = ({ pool, unlockedIds, offlineStatus, onOpen }) => {
+  let index = 0;
+  return (
+    <div className="relative pl-8 md:pl-10">
+      {/* The thread the memories hang from */}
+      <div className="absolute left-3 md:left-4 top-2 bottom-2 w-0.5 bg-rose-200 rounded-full" />
+
+      {buildTimeline(pool, unlockedIds).map(group => (
+        <section key={group.key} className="mb-10">
+          <h3 className="relative font-handwriting text-3xl text-rose-600 mb-4">
+            <span className="absolute -left-[26px] md:-left-[30px] top-1/2 -translate-y-1/2 w-3.5 h-3.5 rounded-full bg-rose-400 border-2 border-white shadow" />
+            {group.label}
+          </h3>
+          <div className="space-y-4">
+            {group.entries.map(({ memory, unlocked }) => {
+              const i = index++;
+              return unlocked
+                ? <TimelineCard key={memory.id} memory={memory} index={i} offline={offlineStatus(memory)} onOpen={onOpen} />
+                : <TimelineLockedCard key={memory.id} memory={memory} index={i} />;
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+const TimelineCard: React.FC<{
+  memory: Memory;
+  index: number;
+  offline: OfflineStatus;
+  onOpen: (memory: Memory) => void;
+}> = ({ memory, index, offline, onOpen }) => {
+  const firstItem = memory.media[0];
+  return (
+    <button
+      onClick={() => onOpen(memory)}
+      className={`w-full flex items-center gap-4 bg-white p-2.5 pr-4 shadow-md hover:shadow-xl transition-all duration-300 text-left rounded-sm ${
+        offline === 'unavailable' ? 'opacity-60' : ''
+      }`}
+      style={{
+        animation: `fadeInUp 0.5s ease-out ${index * 0.05}s both`,
+        transform: `rotate(${getSmallRotation(index) * 0.5}deg)`,
+      }}
+    >
+      <div className="relative w-20 h-20 md:w-24 md:h-24 shrink-0 overflow-hidden bg-rose-50">
+        {firstItem.type === 'video'
+          ? <VideoPreview item={firstItem} alt={memory.caption} className="w-full h-full object-cover" />
+          : <ImagePreview item={firstItem} alt={memory.caption} className="w-full h-full object-cover" />}
+        {firstItem.type === 'video' && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/15">
+            <Play size={18} className="text-white fill-current drop-shadow" />
+          </div>
+        )}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="font-handwriting text-2xl text-rose-700 leading-tight truncate">{memory.caption}</p>
+        {memory.date && <p className="font-handwriting text-base text-rose-400">{memory.date}</p>}
+        <p className="text-xs text-rose-300 mt-0.5">
+          {memory.media.length} {memory.media.length === 1 ? 'photo or video' : 'photos and videos'}
+        </p>
+      </div>
+      {offline === 'saved' && <CloudCheck size={16} className="text-rose-400 shrink-0" />}
+      {offline === 'unavailable' && <CloudOff size={16} className="text-rose-300 shrink-0" />}
+    </button>
+  );
+};
+
+const TimelineLockedCard: React.FC<{ memory: Memory; index: number }> = ({ memory, index }) => {
+  const date = parseMemoryDate(memory.date);
+  return (
+    <div
+      className="flex items-center gap-4 bg-white/40 p-2.5 pr-4 border-2 border-dashed border-rose-200 rounded-sm opacity-70"
+      style={{ animation: `fadeInUp 0.5s ease-out ${index * 0.05}s both` }}
+    >
+      <div className="w-20 h-20 md:w-24 md:h-24 shrink-0 bg-rose-100/60 flex items-center justify-center">
+        <Lock size={24} className="text-rose-300" />
+      </div>
+      <p className="font-handwriting text-xl text-rose-400">
+        {date ? `A memory from ${seasonOf(date)}` : 'A memory yet to come'} — keep playing
+      </p>
+    </div>
+  );
+};
+
 /* ─── Decorative Washi Strips ─── */
 const WashiStrips: React.FC = () => (
   <>
@@ -540,14 +878,71 @@ const Doodles: React.FC = () => (
 /* ═══════════════════════════════════════════
    Main Component
    ═══════════════════════════════════════════ */
-const MemoryGallery: React.FC<MemoryGalleryProps> = ({ unlockedIds, onBack }) => {
+const MemoryGallery: React.FC<MemoryGalleryProps> = ({
+  pool, unlockedIds, offlineExcluded, onSetOffline, favoriteIds, notes, onToggleFavorite, onSetNote, onBack,
+}) => {
   const [openMemory, setOpenMemory] = useState<Memory | null>(null);
   const [showPokeballAnim, setShowPokeballAnim] = useState(false);
   const pendingMemory = useRef<Memory | null>(null);
 
   const unlockedSet = new Set(unlockedIds);
-  const unlockedMemories = MEMORY_POOL.filter(m => unlockedSet.has(m.id));
-  const lockedCount = MEMORY_POOL.length - unlockedMemories.length;
+  const unlockedMemories = pool.filter(m => unlockedSet.has(m.id));
+  const lockedCount = pool.length - unlockedMemories.length;
+
+  // Which memories are cached for offline viewing, and how much space that takes
+  const [offlineIds, setOfflineIds] = useState<Set<string>>(() => new Set());
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [view, setView] = useState<GalleryView>('scrapbook');
+  const [slideshowOpen, setSlideshowOpen] = useState(false);
+  const [filter, setFilter] = useState<MemoryFilter>(readFilterFromUrl);
+
+  useEffect(() => writeFilterToUrl(filter), [filter]);
+  // The filter belongs to the open book — don't leave it in the address bar afterwards
+  useEffect(() => () => writeFilterToUrl(EMPTY_FILTER), []);
+
+  // Search only ever looks at unlocked memories, and hides the locked slots while it's on
+  const filtering = isFiltering(filter);
+  const shownMemories = filtering ? unlockedMemories.filter(m => matchesFilter(m, filter, favoriteIds)) : unlockedMemories;
+  const availableTags = tagsIn(unlockedMemories);
+  const tagChips = [...availableTags, ...filter.tags.filter(tag => !availableTags.includes(tag))];
+
+  const toggleTag = (tag: string) => setFilter(f => ({
+    ...f,
+    tags: f.tags.includes(tag) ? f.tags.filter(t => t !== tag) : [...f.tags, tag],
+  }));
+  const unlockedKey = unlockedMemories.map(m => m.id).join(',');
+
+  useEffect(() => {
+    if (!offlineSupported) return;
+    let cancelled = false;
+    const refresh = async () => {
+      const [ids, estimate] = await Promise.all([offlineMemoryIds(unlockedMemories), storageUsage()]);
+      if (cancelled) return;
+      setOfflineIds(ids);
+      setUsage(estimate);
+    };
+    refresh();
+    const unsubscribe = onOfflineChange(refresh);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+    // unlockedKey stands in for unlockedMemories, which is rebuilt every render
+  }, [unlockedKey]);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  const offlineStatus = (memory: Memory): OfflineStatus =>
+    offlineIds.has(memory.id) ? 'saved' : online ? null : 'unavailable';
 
   const handleOpenMemory = useCallback((memory: Memory) => {
     pendingMemory.current = memory;
@@ -580,7 +975,94 @@ const MemoryGallery: React.FC<MemoryGalleryProps> = ({ unlockedIds, onBack }) =>
             <Heart className="fill-rose-400 text-rose-400" size={28} />
             My Memory Book
           </h2>
-          <div className="w-12" />
+          {shownMemories.length > 0 ? (
+            <button
+              onClick={() => setSlideshowOpen(true)}
+              className="p-3 bg-white rounded-full text-rose-500 shadow-md hover:bg-rose-50 hover:shadow-lg transition-all"
+              aria-label="Slideshow"
+              title="Slideshow"
+            >
+              <Presentation size={22} />
+            </button>
+          ) : (
+            <div className="w-12" />
+          )}
+        </div>
+
+        <div className="-mt-6 mb-8 flex flex-col items-center gap-3">
+          {pool.length > 0 && (
+            <div className="flex p-1 bg-white/80 rounded-full shadow-sm">
+              {([['scrapbook', 'Scrapbook', BookOpen], ['timeline', 'Timeline', CalendarDays]] as const).map(([mode, label, Icon]) => (
+                <button
+                  key={mode}
+                  onClick={() => setView(mode)}
+                  className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${
+                    view === mode ? 'bg-rose-500 text-white shadow' : 'text-rose-400 hover:text-rose-500'
+                  }`}
+                >
+                  <Icon size={15} /> {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {unlockedMemories.length > 0 && (
+            <div className="w-full max-w-md flex flex-col items-center gap-2">
+              <label className="w-full flex items-center gap-2 px-4 py-2 bg-white/90 rounded-full shadow-sm focus-within:ring-2 focus-within:ring-rose-300">
+                <Search size={16} className="text-rose-300 shrink-0" />
+                <input
+                  type="search"
+                  value={filter.query}
+                  onChange={e => setFilter(f => ({ ...f, query: e.target.value }))}
+                  placeholder="Search captions, tags, dates…"
+                  className="flex-1 min-w-0 bg-transparent outline-none text-sm text-rose-600 placeholder:text-rose-300"
+                />
+                {filtering && (
+                  <button
+                    onClick={() => setFilter(EMPTY_FILTER)}
+                    className="text-rose-300 hover:text-rose-500 transition-colors"
+                    aria-label="Clear search"
+                  >
+                    <X size={16} />
+                  </button>
+                )}
+              </label>
+              {(tagChips.length > 0 || favoriteIds.length > 0 || filter.favorites) && (
+                <div className="flex flex-wrap justify-center gap-1.5">
+                  <button
+                    onClick={() => setFilter(f => ({ ...f, favorites: !f.favorites }))}
+                    className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+                      filter.favorites ? 'bg-rose-500 text-white shadow' : 'bg-white/80 text-rose-400 hover:text-rose-500'
+                    }`}
+                  >
+                    <Heart size={11} className={filter.favorites ? 'fill-white' : ''} /> Favorites
+                  </button>
+                  {tagChips.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => toggleTag(tag)}
+                      className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs font-semibold transition-colors ${
+                        filter.tags.includes(tag) ? 'bg-rose-500 text-white shadow' : 'bg-white/80 text-rose-400 hover:text-rose-500'
+                      }`}
+                    >
+                      <Tag size={11} /> {tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {offlineSupported && unlockedMemories.length > 0 && (
+            <div className="flex items-center justify-center gap-1.5 text-xs font-semibold text-rose-400">
+              {online ? <CloudCheck size={14} /> : <WifiOff size={14} />}
+              <span>
+                {!online && "You're offline · "}
+                {offlineIds.size} of {unlockedMemories.length} saved for offline
+                {usage && ` · ${formatBytes(usage.used)} of ${formatBytes(usage.quota)} used`}
+              </span>
+            </div>
+          )}
         </div>
 
         {unlockedMemories.length === 0 && lockedCount === 0 && (
@@ -592,23 +1074,52 @@ const MemoryGallery: React.FC<MemoryGalleryProps> = ({ unlockedIds, onBack }) =>
           </div>
         )}
 
-        <div className="columns-2 md:columns-3 gap-5">
-          {unlockedMemories.map((memory, i) => (
-            <PolaroidCard
-              key={memory.id}
-              memory={memory}
-              index={i}
-              onOpen={handleOpenMemory}
-            />
-          ))}
-          {Array.from({ length: lockedCount }).map((_, idx) => (
-            <LockedSlot key={`locked-${idx}`} index={unlockedMemories.length + idx} />
-          ))}
-        </div>
+        {filtering && shownMemories.length === 0 && (
+          <div className="text-center py-16 bg-white/40 rounded-xl border-2 border-dashed border-rose-200">
+            <Search className="w-12 h-12 mx-auto text-rose-200 mb-3" />
+            <p className="font-handwriting text-2xl text-rose-400 mb-4">No memories match that</p>
+            <button
+              onClick={() => setFilter(EMPTY_FILTER)}
+              className="px-4 py-2 bg-white rounded-full text-sm font-semibold text-rose-500 shadow-sm hover:bg-rose-50 transition-colors"
+            >
+              Clear search
+            </button>
+          </div>
+        )}
+
+        {view === 'timeline' ? (
+          <TimelineView
+            pool={filtering ? shownMemories : pool}
+            unlockedIds={unlockedIds}
+            offlineStatus={offlineStatus}
+            onOpen={handleOpenMemory}
+          />
+        ) : (
+          <div className="columns-2 md:columns-3 gap-5">
+            {shownMemories.map((memory, i) => (
+              <PolaroidCard
+                key={memory.id}
+                memory={memory}
+                index={i}
+                offline={offlineStatus(memory)}
+                favorite={favoriteIds.includes(memory.id)}
+                onToggleFavorite={onToggleFavorite}
+                onOpen={handleOpenMemory}
+              />
+            ))}
+            {!filtering && Array.from({ length: lockedCount }).map((_, idx) => (
+              <LockedSlot key={`locked-${idx}`} index={unlockedMemories.length + idx} />
+            ))}
+          </div>
+        )}
 
-        {(unlockedMemories.length > 0 || lockedCount > 0) && (
+        {filtering && shownMemories.length > 0 ? (
+          <p className="font-handwriting text-center text-rose-400 text-xl mt-10 mb-4">
+            {shownMemories.length} of {unlockedMemories.length} unlocked memories match
+          </p>
+        ) : (unlockedMemories.length > 0 || lockedCount > 0) && (
           <p className="font-handwriting text-center text-rose-400 text-xl mt-10 mb-4">
-            {unlockedMemories.length} of {MEMORY_POOL.length} memories unlocked
+            {unlockedMemories.length} of {pool.length} memories unlocked
           </p>
         )}
       </div>
@@ -618,9 +1129,20 @@ const MemoryGallery: React.FC<MemoryGalleryProps> = ({ unlockedIds, onBack }) =>
       {openMemory && (
         <MemoryDetail
           memory={openMemory}
+          offlineEnabled={!offlineExcluded.includes(openMemory.id)}
+          offlineSaved={offlineIds.has(openMemory.id)}
+          onSetOffline={offline => onSetOffline(openMemory, offline)}
+          favorite={favoriteIds.includes(openMemory.id)}
+          note={notes[openMemory.id] ?? ''}
+          onToggleFavorite={() => onToggleFavorite(openMemory)}
+          onSetNote={note => onSetNote(openMemory, note)}
           onClose={() => setOpenMemory(null)}
         />
       )}
+
+      {slideshowOpen && (
+        <Slideshow memories={shownMemories} onClose={() => setSlideshowOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+
+const WOBBLE_SECONDS = 0.8;
+
+/* ─── Pokeball Open Animation Overlay ─── */
+// With `wobbles` the closed ball rocks that many times first, like a catch in the games
+const PokeballOpen: React.FC<{ onComplete: () => void; wobbles?: number }> = ({ onComplete, wobbles = 0 }) => {
+  const [opening, setOpening] = useState(wobbles === 0);
+
+  useEffect(() => {
+    if (!opening) return;
+    const timer = setTimeout(onComplete, 900);
+    return () => clearTimeout(timer);
+  }, [opening, onComplete]);
+
+  if (!opening) {
+    return (
+      <div className="fixed inset-0 z-[70] flex items-center justify-center pointer-events-none">
+        <div
+          style={{
+            transformOrigin: '50% 90%',
+            animation: `pokeballWobble ${WOBBLE_SECONDS}s ease-in-out 0.3s ${wobbles}`,
+          }}
+          onAnimationEnd={() => setOpening(true)}
+        >
+          <svg width="120" height="120" viewBox="0 0 120 120">
+            <path d="M10,60 A50,50 0 0,1 110,60 Z" fill="#e11d48" stroke="#881337" strokeWidth="3" />
+            <path d="M10,60 A50,50 0 0,0 110,60 Z" fill="white" stroke="#881337" strokeWidth="3" />
+            <rect x="10" y="57" width="100" height="6" fill="#881337" />
+            <circle cx="60" cy="60" r="14" fill="white" stroke="#881337" strokeWidth="3" />
+            <circle cx="60" cy="60" r="6" fill="#fda4af" stroke="#881337" strokeWidth="2" />
+          </svg>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center pointer-events-none">
+      <div
+        className="absolute w-32 h-32 rounded-full border-4 border-rose-300"
+        style={{ animation: 'pokeballSpark 0.8s ease-out forwards' }}
+      />
+      <div
+        className="absolute"
+        style={{ animation: 'pokeballTopOpen 0.7s ease-in forwards' }}
+      >
+        <svg width="120" height="60" viewBox="0 0 120 60">
+          <path d="M10,60 A50,50 0 0,1 110,60" fill="#e11d48" stroke="#881337" strokeWidth="3" />
+          <rect x="0" y="56" width="120" height="4" fill="#881337" />
+          <circle cx="60" cy="60" r="14" fill="white" stroke="#881337" strokeWidth="3" />
+          <circle cx="60" cy="60" r="6" fill="#e11d48" stroke="#881337" strokeWidth="2" />
+        </svg>
+      </div>
+      <div
+        className="absolute"
+        style={{ animation: 'pokeballBottomOpen 0.7s ease-in forwards' }}
+      >
+        <svg width="120" height="60" viewBox="0 0 120 60">
+          <rect x="0" y="0" width="120" height="4" fill="#881337" />
+          <path d="M10,0 A50,50 0 0,0 110,0" fill="white" stroke="#881337" strokeWidth="3" />
+          <circle cx="60" cy="0" r="14" fill="white" stroke="#881337" strokeWidth="3" />
+          <circle cx="60" cy="0" r="6" fill="#fda4af" stroke="#881337" strokeWidth="2" />
+        </svg>
+      </div>
+      <div
+        className="absolute w-40 h-40 rounded-full"
+        style={{
+          background: 'radial-gradient(circle, rgba(251,113,133,0.5) 0%, rgba(251,113,133,0) 70%)',
+          animation: 'pokeballGlow 0.8s ease-out forwards',
+        }}
+      />
+    </div>
+  );
+};
+
+export default PokeballOpen;
@@ -0,0 +1,127 @@
+
+import { useState } from 'react';
+import { UserRound, Plus, Pencil, Trash2, Check, X } from 'lucide-react';
+import { SaveFile } from '../types';
+import {
+  MAX_PROFILES, MAX_PROFILE_NAME_LENGTH,
+  activeProfile, addProfile, renameProfile, deleteProfile,
+} from '../save';
+
+interface ProfilePickerProps {
+  file: SaveFile;
+  onChange: (file: SaveFile) => void;
+}
+
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ file, onChange }) => {
+  // Only one of these is open at a time: naming a new profile, renaming, or confirming a delete
+  const [editing, setEditing] = useState<{ mode: 'create' | 'rename'; name: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const active = activeProfile(file);
+
+  const submit = () => {
+    if (!editing) return;
+    onChange(editing.mode === 'create'
+      ? addProfile(file, editing.name)
+      : renameProfile(file, active.id, editing.name));
+    setEditing(null);
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-rose-50 rounded-2xl border border-rose-200">
+      <div className="flex flex-wrap items-center justify-center gap-1.5">
+        {file.profiles.map(profile => (
+          <button
+            key={profile.id}
+            onClick={() => {
+              setEditing(null);
+              setConfirmDelete(false);
+              onChange({ ...file, activeProfileId: profile.id });
+            }}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm font-semibold transition-colors ${
+              profile.id === active.id
+                ? 'bg-rose-500 text-white shadow-sm'
+                : 'bg-white border border-rose-200 text-rose-500 hover:border-rose-400'
+            }`}
+          >
+            <UserRound size={14} /> {profile.name}
+          </button>
+        ))}
+        {file.profiles.length < MAX_PROFILES && (
+          <button
+            onClick={() => { setConfirmDelete(false); setEditing({ mode: 'create', name: '' }); }}
+            className="p-1.5 bg-rose-100 hover:bg-rose-200 rounded-full transition-colors"
+            title="New profile"
+          >
+            <Plus size={14} className="text-rose-500" />
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <form
+          onSubmit={e => { e.preventDefault(); submit(); }}
+          className="mt-2 flex items-center justify-center gap-1.5"
+        >
+          <input
+            autoFocus
+            value={editing.name}
+            maxLength={MAX_PROFILE_NAME_LENGTH}
+            placeholder={editing.mode === 'create' ? 'New player name' : 'Profile name'}
+            onChange={e => setEditing({ ...editing, name: e.target.value })}
+            className="px-3 py-1 rounded-full border border-rose-200 text-sm text-rose-700 focus:outline-none focus:border-rose-400"
+          />
+          <button type="submit" className="p-1.5 hover:bg-rose-100 rounded-full transition-colors" title="Save">
+            <Check size={16} className="text-rose-500" />
+          </button>
+          <button type="button" onClick={() => setEditing(null)} className="p-1.5 hover:bg-rose-100 rounded-full transition-colors" title="Cancel">
+            <X size={16} className="text-rose-400" />
+          </button>
+        </form>
+      ) : confirmDelete ? (
+        <div className="mt-2 text-xs text-rose-600">
+          <p>Delete {active.name} and all of their progress?</p>
+          <div className="mt-1 flex items-center justify-center gap-3 font-semibold">
+            <button
+              onClick={() => { onChange(deleteProfile(file, active.id)); setConfirmDelete(false); }}
+              className="text-rose-600 underline"
+            >
+              Delete
+            </button>
+            <button onClick={() => setConfirmDelete(false)} className="text-rose-400">Keep</button>
+          </div>
+        </div>
+      ) : (
+        <div className="mt-2 flex items-center justify-center gap-3 text-xs font-semibold text-rose-400">
+          <button
+            onClick={() => setEditing({ mode: 'rename', name: active.name })}
+            className="flex items-center gap-1 hover:text-rose-500 transition-colors"
+          >
+            <Pencil size={12} /> Rename
+          </button>
+          {file.profiles.length > 1 && (
+            <button
+              onClick={() => setConfirmDelete(true)}
+              className="flex items-center gap-1 hover:text-rose-500 transition-colors"
+            >
+              <Trash2 size={12} /> Delete
+            </button>
+          )}
+        </div>
+      )}
+
+      {file.profiles.length > 1 && (
+        <label className="mt-2 flex items-center justify-center gap-2 text-xs text-rose-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={file.shareMemories}
+            onChange={e => onChange({ ...file, shareMemories: e.target.checked })}
+            className="accent-rose-500"
+          />
+          Share unlocked memories between profiles
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePicker;
@@ -0,0 +1,128 @@
+import { useState, useEffect, useRef } from 'react';
+import { BookHeart, Shirt } from 'lucide-react';
+import { MeterSegment, progressToward } from '../progression';
+
+interface ProgressMeterProps {
+  total: number;        // Pokeballs collected across every run, including this one so far
+  poolSize: number;
+  /** When set, the meter counts up from here to `total` instead of starting full */
+  from?: number;
+  className?: string;
+}
+
+// How long the bar holds full and pulses after reaching an unlock
+const PULSE_MS = 1200;
+// Counting up from `from` on the game over screen
+const COUNT_UP_DELAY_MS = 400;
+const COUNT_UP_MS = 1600;
+
+/* ─── Counts `from` → `to` with an ease-out, once ─── */
+function useCountUp(to: number, from: number | undefined): number {
+  const [value, setValue] = useState(from ?? to);
+
+  useEffect(() => {
+    if (from === undefined || from >= to) {
+      setValue(to);
+      return;
+    }
+    let frame = 0;
+    let start = 0;
+    const tick = (now: number) => {
+      if (!start) start = now;
+      const t = Math.min(1, (now - start) / COUNT_UP_MS);
+      setValue(Math.floor(from + (to - from) * (1 - (1 - t) ** 3)));
+      if (t < 1) frame = requestAnimationFrame(tick);
+    };
+    const timer = setTimeout(() => { frame = requestAnimationFrame(tick); }, COUNT_UP_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      cancelAnimationFrame(frame);
+    };
+  }, [from, to]);
+
+  return value;
+}
+
+/* ─── One bar — fills toward `segment.to`, then pulses as it's reached ─── */
+const MeterBar: React.FC<{
+  segment: MeterSegment | null;
+  total: number;
+  icon: React.ReactNode;
+  label: string;
+  reachedLabel: string;
+  doneLabel: string;
+  fill: string;
+}> = ({ segment, total, icon, label, reachedLabel, doneLabel, fill }) => {
+  const [pulse, setPulse] = useState(0);
+  const [pulsing, setPulsing] = useState(false);
+  const lastTarget = useRef(segment?.to ?? null);
+
+  // The target moving on (or running out) means the last one was just reached
+  const target = segment?.to ?? null;
+  useEffect(() => {
+    const last = lastTarget.current;
+    lastTarget.current = target;
+    if (last === null || target === last) return;
+    setPulse(p => p + 1);
+    setPulsing(true);
+    const timer = setTimeout(() => setPulsing(false), PULSE_MS);
+    return () => clearTimeout(timer);
+  }, [target]);
+
+  const fraction = pulsing || !segment ? 1 : segment.fraction;
+  const text = pulsing ? reachedLabel : segment ? label : doneLabel;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 text-[11px] font-bold text-rose-500 mb-1">
+        <span className="flex items-center gap-1 truncate">{icon} {text}</span>
+        {segment && !pulsing && (
+          <span className="font-mono text-rose-400 shrink-0">{total - segment.from} / {segment.to - segment.from}</span>
+        )}
+      </div>
+      <div
+        key={pulse}
+        className="h-2.5 rounded-full bg-rose-100 overflow-hidden"
+        style={pulse > 0 ? { animation: `meterPulse ${PULSE_MS}ms ease-out` } : undefined}
+      >
+        <div
+          className={`h-full rounded-full ${fill} transition-[width] duration-300 ease-out`}
+          style={{ width: `${Math.min(1, fraction) * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+/* ═══════════════════════════════════════════
+   Progress toward the next memory and outfit
+   ═══════════════════════════════════════════ */
+const ProgressMeter: React.FC<ProgressMeterProps> = ({ total, poolSize, from, className = '' }) => {
+  const shown = useCountUp(total, from);
+  const { memory, outfit } = progressToward(shown, poolSize);
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <MeterBar
+        segment={memory}
+        total={shown}
+        icon={<BookHeart size={12} />}
+        label="Next memory"
+        reachedLabel="Memory earned!"
+        doneLabel="Every memory earned"
+        fill="bg-gradient-to-r from-rose-400 to-pink-500"
+      />
+      <MeterBar
+        segment={outfit}
+        total={shown}
+        icon={<Shirt size={12} />}
+        label={outfit?.name ?? ''}
+        reachedLabel="Outfit earned!"
+        doneLabel="Every outfit unlocked"
+        fill="bg-gradient-to-r from-violet-400 to-fuchsia-500"
+      />
+    </div>
+  );
+};
+
+export default ProgressMeter;
@@ -0,0 +1,360 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { X, Play, Pause, SkipBack, SkipForward, Shuffle, ListOrdered, Maximize, Minimize, Presentation } from 'lucide-react';
+import { Memory, MediaItem } from '../types';
+import { videoSources, mightPlay } from '../media';
+import { VideoSources } from './MediaPreview';
+
+interface SlideshowProps {
+  memories: Memory[];
+  onClose: () => void;
+}
+
+interface Slide {
+  memory: Memory;
+  item: MediaItem;
+}
+
+type SlideOrder = 'ordered' | 'shuffled';
+
+const PHOTO_DURATIONS = [4, 7, 12]; // seconds
+const CONTROLS_IDLE_MS = 3000;
+
+// Where the slow pan starts and ends, cycled through slide by slide
+const KEN_BURNS = [
+  { from: 'scale(1) translate(0, 0)', to: 'scale(1.15) translate(-3%, -2%)' },
+  { from: 'scale(1.15) translate(3%, 2%)', to: 'scale(1) translate(0, 0)' },
+  { from: 'scale(1.05) translate(-3%, 2%)', to: 'scale(1.18) translate(2%, -2%)' },
+  { from: 'scale(1.18) translate(0, -3%)', to: 'scale(1.05) translate(0, 2%)' },
+];
+
+const reducedMotionQuery = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Every photo and video, memory by memory. Shuffling moves whole memories so
+ * their media stay together. Videos this browser can't play are left out.
+ */
+function buildSlides(memories: Memory[], order: SlideOrder): Slide[] {
+  const list = [...memories];
+  if (order === 'shuffled') {
+    for (let i = list.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [list[i], list[j]] = [list[j], list[i]];
+    }
+  }
+  return list.flatMap(memory => memory.media
+    .filter(item => item.type !== 'video' || mightPlay(videoSources(item)))
+    .map(item => ({ memory, item })));
+}
+
+function usePrefersReducedMotion(): boolean {
+  const [reduced, setReduced] = useState(() => window.matchMedia(reducedMotionQuery).matches);
+  useEffect(() => {
+    const query = window.matchMedia(reducedMotionQuery);
+    const update = () => setReduced(query.matches);
+    query.addEventListener('change', update);
+    return () => query.removeEventListener('change', update);
+  }, []);
+  return reduced;
+}
+
+/* ─── Before it starts: order and photo timing ─── */
+const SlideshowSetup: React.FC<{
+  count: number;
+  order: SlideOrder;
+  duration: number;
+  onOrder: (order: SlideOrder) => void;
+  onDuration: (seconds: number) => void;
+  onStart: () => void;
+  onClose: () => void;
+}> = ({ count, order, duration, onOrder, onDuration, onStart, onClose }) => {
+  const option = (active: boolean) =>
+    `flex items-center justify-center gap-1.5 flex-1 px-3 py-2 rounded-xl text-sm font-semibold transition-colors ${
+      active ? 'bg-rose-500 text-white shadow' : 'bg-rose-50 text-rose-400 hover:text-rose-500'
+    }`;
+
+  return (
+    <div
+      className="fixed inset-0 z-[90] flex items-center justify-center p-4"
+      style={{ backgroundColor: 'rgba(0,0,0,0.6)', animation: 'backdropFadeIn 0.25s ease-out' }}
+      onClick={onClose}
+    >
+      <div
+        onClick={e => e.stopPropagation()}
+        className="relative bg-white rounded-3xl shadow-2xl p-6 w-full max-w-sm"
+        style={{ animation: 'contentReveal 0.3s ease-out both' }}
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1.5 rounded-full text-rose-300 hover:text-rose-500 hover:bg-rose-50 transition-colors"
+        >
+          <X size={18} />
+        </button>
+        <h3 className="font-handwriting text-3xl text-rose-600 text-center mb-1">Slideshow</h3>
+        <p className="text-center text-sm text-rose-400 mb-5">
+          {count} {count === 1 ? 'memory' : 'memories'} · videos play to the end
+        </p>
+
+        <p className="text-xs font-bold uppercase tracking-wide text-rose-300 mb-2">Order</p>
+        <div className="flex gap-2 mb-4">
+          <button onClick={() => onOrder('ordered')} className={option(order === 'ordered')}>
+            <ListOrdered size={15} /> In order
+          </button>
+          <button onClick={() => onOrder('shuffled')} className={option(order === 'shuffled')}>
+            <Shuffle size={15} /> Shuffled
+          </button>
+        </div>
+
+        <p className="text-xs font-bold uppercase tracking-wide text-rose-300 mb-2">Each photo for</p>
+        <div className="flex gap-2 mb-6">
+          {PHOTO_DURATIONS.map(seconds => (
+            <button key={seconds} onClick={() => onDuration(seconds)} className={option(duration === seconds)}>
+              {seconds}s
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={onStart}
+          className="w-full flex items-center justify-center gap-2 bg-rose-500 hover:bg-rose-600 text-white py-3 rounded-2xl font-bold transition-colors shadow-md"
+        >
+          <Play size={18} className="fill-white" /> Start
+        </button>
+        <p className="text-center text-xs text-rose-300 mt-3">
+          Space pause · ← → skip · F full screen · Esc exit
+        </p>
+      </div>
+    </div>
+  );
+};
+
+/* ═══════════════════════════════════════════
+   Full-screen player
+   ═══════════════════════════════════════════ */
+const Slideshow: React.FC<SlideshowProps> = ({ memories, onClose }) => {
+  const [order, setOrder] = useState<SlideOrder>('ordered');
+  const [duration, setDuration] = useState(PHOTO_DURATIONS[1]);
+  const [slides, setSlides] = useState<Slide[] | null>(null);
+  const [position, setPosition] = useState(0); // Counts up forever so a one-slide show still restarts
+  const [paused, setPaused] = useState(false);
+  const [failed, setFailed] = useState<ReadonlySet<number>>(new Set()); // Slides that couldn't load this show
+  const [controlsVisible, setControlsVisible] = useState(true);
+  const [fullscreen, setFullscreen] = useState(false);
+  const reducedMotion = usePrefersReducedMotion();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const remainingMs = useRef(0);
+  const idleTimer = useRef<number | undefined>(undefined);
+
+  const count = slides?.length ?? 0;
+  // Loops back to the start, so it can run on the TV all evening
+  const index = count === 0 ? 0 : ((position % count) + count) % count;
+  // Offline with nothing cached, every slide fails — stop instead of skipping forever
+  const allFailed = count > 0 && failed.size === count;
+  const slide = allFailed ? undefined : slides?.[index];
+
+  const go = useCallback((step: number) => setPosition(p => p + step), []);
+
+  const skipFailed = useCallback(() => {
+    setFailed(f => new Set(f).add(index));
+    go(1);
+  }, [index, go]);
+
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    else containerRef.current?.requestFullscreen?.().catch(() => {});
+  }, []);
+
+  const close = useCallback(() => {
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    onClose();
+  }, [onClose]);
+
+  const start = () => {
+    setSlides(buildSlides(memories, order));
+    setPosition(0);
+    setFailed(new Set());
+    setPaused(false);
+    // Called from the Start click, so the browser allows both full screen and sound
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+  };
+
+  useEffect(() => {
+    const update = () => setFullscreen(document.fullscreenElement !== null);
+    document.addEventListener('fullscreenchange', update);
+    return () => document.removeEventListener('fullscreenchange', update);
+  }, []);
+
+  // Photos advance on a timer that survives pausing; videos advance when they end
+  useEffect(() => {
+    remainingMs.current = duration * 1000;
+  }, [position, slides, duration]);
+
+  useEffect(() => {
+    if (!slide || paused || slide.item.type !== 'image') return;
+    const startedAt = performance.now();
+    const timer = window.setTimeout(() => go(1), remainingMs.current);
+    return () => {
+      window.clearTimeout(timer);
+      remainingMs.current -= performance.now() - startedAt;
+    };
+  }, [slide, position, paused, go]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (paused) video.pause();
+    else video.play().catch(() => {});
+  }, [paused, position]);
+
+  // Fetch the next photo (or poster) while this one is up
+  useEffect(() => {
+    const next = slides?.[(index + 1) % count]?.item;
+    const url = next?.type === 'image' ? next.url : next?.thumbnail;
+    if (url) new Image().src = url;
+  }, [slides, index, count]);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') close();
+      else if (!slides) return;
+      else if (e.key === 'ArrowRight') go(1);
+      else if (e.key === 'ArrowLeft') go(-1);
+      else if (e.key === ' ' || e.key === 'k') setPaused(p => !p);
+      else if (e.key === 'f' || e.key === 'F') toggleFullscreen();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [slides, close, go, toggleFullscreen]);
+
+  // Controls and cursor hide after a few seconds without the mouse moving
+  const wake = useCallback(() => {
+    setControlsVisible(true);
+    window.clearTimeout(idleTimer.current);
+    idleTimer.current = window.setTimeout(() => setControlsVisible(false), CONTROLS_IDLE_MS);
+  }, []);
+
+  useEffect(() => {
+    if (!slides) return;
+    wake();
+    return () => window.clearTimeout(idleTimer.current);
+  }, [slides, wake]);
+
+  const kenBurns = KEN_BURNS[index % KEN_BURNS.length];
+  const showControls = controlsVisible || paused;
+
+  return (
+    <div
+      ref={containerRef}
+      className={`fixed inset-0 z-[90] overflow-hidden select-none ${slides ? 'bg-black' : ''}`}
+      style={{ cursor: slides && !showControls ? 'none' : undefined }}
+      onPointerMove={slides ? wake : undefined}
+    >
+      {!slides && (
+        <SlideshowSetup
+          count={memories.length}
+          order={order}
+          duration={duration}
+          onOrder={setOrder}
+          onDuration={setDuration}
+          onStart={start}
+          onClose={close}
+        />
+      )}
+
+      {slides?.length === 0 && (
+        <p className="absolute inset-0 flex items-center justify-center font-handwriting text-3xl text-rose-200">
+          Nothing here can play in this browser
+        </p>
+      )}
+
+      {allFailed && (
+        <p className="absolute inset-0 flex items-center justify-center px-8 text-center font-handwriting text-3xl text-rose-200">
+          None of these memories could be loaded — are you offline?
+        </p>
+      )}
+
+      {slide && (
+        <div
+          key={position}
+          className="absolute inset-0 flex items-center justify-center"
+          style={{ animation: reducedMotion ? undefined : 'backdropFadeIn 0.8s ease-out' }}
+        >
+          {slide.item.type === 'video' ? (
+            <video
+              ref={videoRef}
+              autoPlay
+              playsInline
+              poster={slide.item.thumbnail}
+              className="w-full h-full object-contain"
+              onEnded={() => go(1)}
+            >
+              <VideoSources item={slide.item} onUnplayable={skipFailed} />
+            </video>
+          ) : (
+            <img
+              src={slide.item.url}
+              alt={slide.memory.caption}
+              className="w-full h-full object-contain"
+              onError={skipFailed}
+              style={reducedMotion ? undefined : {
+                animation: `kenBurns ${duration}s linear both`,
+                animationPlayState: paused ? 'paused' : 'running',
+                ['--ken-burns-from' as string]: kenBurns.from,
+                ['--ken-burns-to' as string]: kenBurns.to,
+              }}
+            />
+          )}
+
+          <div className="absolute inset-x-0 bottom-0 px-8 pb-10 pt-24 bg-gradient-to-t from-black/70 to-transparent pointer-events-none">
+            <p
+              className="font-handwriting text-4xl md:text-6xl text-white text-center"
+              style={{ textShadow: '0 2px 12px rgba(0,0,0,0.6)' }}
+            >
+              {slide.memory.caption}
+            </p>
+            {slide.memory.date && (
+              <p className="font-handwriting text-2xl md:text-3xl text-rose-200 text-center mt-1">
+                {slide.memory.date}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {slides && (
+        <div
+          className="absolute inset-x-0 top-0 flex items-center justify-between p-4 bg-gradient-to-b from-black/60 to-transparent transition-opacity duration-300"
+          style={{ opacity: showControls ? 1 : 0, pointerEvents: showControls ? 'auto' : 'none' }}
+        >
+          <div className="flex items-center gap-2 text-white/80 text-sm font-semibold">
+            <Presentation size={16} /> {index + 1} / {count}
+            {paused && <span className="ml-2 px-2 py-0.5 rounded-full bg-white/20">Paused</span>}
+          </div>
+          <div className="flex items-center gap-1">
+            {[
+              { label: 'Previous', icon: <SkipBack size={20} />, action: () => go(-1) },
+              { label: paused ? 'Play' : 'Pause', icon: paused ? <Play size={20} /> : <Pause size={20} />, action: () => setPaused(p => !p) },
+              { label: 'Next', icon: <SkipForward size={20} />, action: () => go(1) },
+              { label: fullscreen ? 'Exit full screen' : 'Full screen', icon: fullscreen ? <Minimize size={20} /> : <Maximize size={20} />, action: toggleFullscreen },
+              { label: 'Close slideshow', icon: <X size={20} />, action: close },
+            ].map(({ label, icon, action }) => (
+              <button
+                key={label}
+                onClick={action}
+                aria-label={label}
+                title={label}
+                className="w-10 h-10 rounded-full text-white hover:bg-white/20 flex items-center justify-center transition-colors"
+              >
+                {icon}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Slideshow;
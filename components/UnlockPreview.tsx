@@ -0,0 +1,76 @@
+import { X, ListChecks, BookHeart, Shirt, Check } from 'lucide-react';
+import { unlockSchedule } from '../progression';
+
+interface UnlockPreviewProps {
+  poolSize: number;
+  totalCollected: number;
+  onClose: () => void;
+}
+
+/** Every total that unlocks a memory or an outfit, with the ones already reached ticked off */
+const UnlockPreview: React.FC<UnlockPreviewProps> = ({ poolSize, totalCollected, onClose }) => {
+  const rows = unlockSchedule(poolSize);
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+      style={{ backgroundColor: 'rgba(0,0,0,0.5)', animation: 'backdropFadeIn 0.25s ease-out' }}
+      onClick={onClose}
+    >
+      <div
+        className="relative max-w-sm w-full bg-white p-6 rounded-3xl border-4 border-rose-200 shadow-2xl text-left"
+        style={{ animation: 'contentReveal 0.3s ease-out both' }}
+        onClick={e => e.stopPropagation()}
+      >
+        <button onClick={onClose} className="absolute top-3 right-3 p-1.5 hover:bg-rose-50 rounded-full transition-colors">
+          <X size={18} className="text-rose-400" />
+        </button>
+        <h3 className="flex items-center gap-2 font-bold text-xl text-rose-600 mb-1">
+          <ListChecks size={20} /> What unlocks when
+        </h3>
+        <p className="text-xs text-rose-400 mb-4">
+          Pokeballs collected across all runs — you're at {totalCollected}.
+        </p>
+
+        <div className="max-h-80 overflow-y-auto rounded-2xl border border-rose-100">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-rose-50 text-xs uppercase tracking-wide text-rose-400">
+              <tr>
+                <th className="px-3 py-2 text-right font-bold">Total</th>
+                <th className="px-3 py-2 text-left font-bold">Unlocks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => {
+                const reached = totalCollected >= row.total;
+                return (
+                  <tr key={row.total} className={`border-t border-rose-50 ${reached ? 'text-rose-300' : 'text-rose-700'}`}>
+                    <td className="px-3 py-1.5 text-right font-mono font-semibold align-top">
+                      {reached && <Check size={12} className="inline mr-1 -mt-0.5" />}
+                      {row.total}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      {row.memories.length > 0 && (
+                        <span className="inline-flex items-center gap-1 mr-3">
+                          <BookHeart size={13} />
+                          {row.memories.length === 1 ? `Memory ${row.memories[0]}` : `Memories ${row.memories.join(', ')}`}
+                        </span>
+                      )}
+                      {row.outfits.map(name => (
+                        <span key={name} className="inline-flex items-center gap-1 mr-3 font-semibold">
+                          <Shirt size={13} /> {name}
+                        </span>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnlockPreview;
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Sparkles, BookHeart, ChevronRight, Play } from 'lucide-react';
+import { Memory } from '../types';
+import PokeballOpen from './PokeballOpen';
+import { VideoPreview, ImagePreview } from './MediaPreview';
+
+interface UnlockRevealProps {
+  memories: Memory[];
+  onOpenBook: () => void;
+  onClose: () => void;
+}
+
+const CATCH_WOBBLES = 3;
+
+/* ─── The memory as it comes out of the ball ─── */
+const RevealedCard: React.FC<{ memory: Memory }> = ({ memory }) => {
+  const cover = memory.media[0];
+  return (
+    <div
+      className="bg-white p-3 pb-5 shadow-2xl w-64 md:w-72"
+      style={{ animation: 'contentReveal 0.45s ease-out both', transform: 'rotate(-2deg)' }}
+    >
+      <div className="relative aspect-[4/5] overflow-hidden bg-rose-50">
+        {cover.type === 'video' ? (
+          <>
+            <VideoPreview item={cover} alt={memory.caption} className="w-full h-full object-cover" />
+            <div className="absolute inset-0 flex items-center justify-center bg-black/20">
+              <div className="w-12 h-12 rounded-full bg-white/90 flex items-center justify-center shadow-lg">
+                <Play size={20} className="text-rose-500 ml-0.5 fill-current" />
+              </div>
+            </div>
+          </>
+        ) : (
+          <ImagePreview item={cover} alt={memory.caption} className="w-full h-full object-cover" />
+        )}
+      </div>
+      <p className="font-handwriting text-2xl text-rose-700 text-center leading-tight mt-3">{memory.caption}</p>
+      {memory.date && <p className="font-handwriting text-base text-rose-400 text-center">{memory.date}</p>}
+    </div>
+  );
+};
+
+/* ═══════════════════════════════════════════
+   Catch-and-reveal, one new memory at a time
+   ═══════════════════════════════════════════ */
+const UnlockReveal: React.FC<UnlockRevealProps> = ({ memories, onOpenBook, onClose }) => {
+  const [index, setIndex] = useState(0);
+  const [revealed, setRevealed] = useState(false);
+  const isLast = index === memories.length - 1;
+
+  const handleCaught = useCallback(() => setRevealed(true), []);
+
+  const advance = useCallback(() => {
+    if (!revealed) return;
+    if (isLast) {
+      onOpenBook();
+    } else {
+      setIndex(i => i + 1);
+      setRevealed(false);
+    }
+  }, [revealed, isLast, onOpenBook]);
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      // A focused button already handles these itself
+      else if ((e.key === 'Enter' || e.key === ' ') && !(e.target instanceof HTMLButtonElement)) {
+        e.preventDefault();
+        advance();
+      }
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [advance, onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex flex-col items-center justify-center p-4"
+      style={{ backgroundColor: 'rgba(0,0,0,0.75)', animation: 'backdropFadeIn 0.3s ease-out' }}
+    >
+      <p className="absolute top-6 left-0 right-0 text-center font-handwriting text-3xl text-rose-100">
+        {revealed ? 'Gotcha! A new memory' : 'Catching…'}
+        {memories.length > 1 && (
+          <span className="block text-sm font-sans font-semibold text-rose-300 mt-1">
+            {index + 1} of {memories.length}
+          </span>
+        )}
+      </p>
+
+      {!revealed && <PokeballOpen key={index} wobbles={CATCH_WOBBLES} onComplete={handleCaught} />}
+
+      {revealed && (
+        <>
+          <RevealedCard key={memories[index].id} memory={memories[index]} />
+          <div className="flex flex-col items-center gap-2 mt-8" style={{ animation: 'fadeInUp 0.4s ease-out 0.3s both' }}>
+            <button
+              onClick={advance}
+              className="flex items-center justify-center gap-2 bg-rose-500 hover:bg-rose-600 text-white px-6 py-3 rounded-2xl font-bold transition-colors shadow-lg"
+            >
+              {isLast
+                ? <><BookHeart size={18} /> Open Memory Book</>
+                : <><Sparkles size={18} /> Next memory <ChevronRight size={18} /></>}
+            </button>
+          </div>
+        </>
+      )}
+
+      <button
+        onClick={isLast && revealed ? onClose : onOpenBook}
+        className="absolute bottom-6 text-sm font-semibold text-rose-200 hover:text-white transition-colors"
+      >
+        {isLast && revealed ? 'Back' : 'Skip to Memory Book'}
+      </button>
+    </div>
+  );
+};
+
+export default UnlockReveal;
@@ -0,0 +1,102 @@
+import { InputAction, KeyBindings } from './types';
+
+// =====================================================
+// KEYBOARD & GAMEPAD CONTROLS
+// =====================================================
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  keys: {
+    jump: ['Space', 'ArrowUp', 'KeyW'],
+    pause: ['Escape'],
+  },
+  gamepad: {
+    jump: [0],   // A / Cross
+    pause: [9],  // Start / Options
+  },
+};
+
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: 'jump', label: 'Jump (hold for height)' },
+  { action: 'pause', label: 'Pause' },
+];
+
+const KEY_LABELS: Record<string, string> = {
+  Space: 'Space',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Escape: 'Esc',
+  Enter: 'Enter',
+  ShiftLeft: 'L-Shift',
+  ShiftRight: 'R-Shift',
+};
+
+/** Short human label for a KeyboardEvent.code */
+export function keyLabel(code: string): string {
+  if (KEY_LABELS[code]) return KEY_LABELS[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  return code;
+}
+
+/** Which action (if any) a key is bound to */
+export function actionForKey(bindings: KeyBindings, code: string): InputAction | null {
+  return INPUT_ACTIONS.find(a => bindings.keys[a.action].includes(code))?.action ?? null;
+}
+
+const GAMEPAD_LABELS = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3', 'D-Up', 'D-Down', 'D-Left', 'D-Right'];
+
+/** Label for a standard-mapping gamepad button index */
+export function buttonLabel(index: number): string {
+  return GAMEPAD_LABELS[index] ?? `Button ${index}`;
+}
+
+export type Device = keyof KeyBindings;
+
+/** Bind a key or button to `action`, removing it from any other action first */
+export function bindInput(bindings: KeyBindings, device: Device, action: InputAction, value: string | number): KeyBindings {
+  const map = { ...bindings[device] } as Record<InputAction, (string | number)[]>;
+  for (const { action: a } of INPUT_ACTIONS) map[a] = map[a].filter(v => v !== value);
+  map[action] = [...map[action], value];
+  return { ...bindings, [device]: map };
+}
+
+export function unbindInput(bindings: KeyBindings, device: Device, action: InputAction, value: string | number): KeyBindings {
+  const map = { ...bindings[device] } as Record<InputAction, (string | number)[]>;
+  map[action] = map[action].filter(v => v !== value);
+  return { ...bindings, [device]: map };
+}
+
+/** Index of the first pressed button on any connected gamepad, if any */
+export function firstPressedButton(): number | null {
+  const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+  for (const pad of pads) {
+    const index = pad?.buttons.findIndex(b => b.pressed) ?? -1;
+    if (index >= 0) return index;
+  }
+  return null;
+}
+
+/**
+ * Tracks gamepad button state between polls and reports edges.
+ * The Gamepad API has no events for buttons, so GameView polls once per frame.
+ */
+export function createGamepadPoller() {
+  const held: Record<InputAction, boolean> = { jump: false, pause: false };
+
+  return (bindings: KeyBindings): { action: InputAction; pressed: boolean }[] => {
+    const pads = navigator.getGamepads ? navigator.getGamepads() : [];
+    const changes: { action: InputAction; pressed: boolean }[] = [];
+    for (const { action } of INPUT_ACTIONS) {
+      const down = pads.some(pad =>
+        pad?.connected && bindings.gamepad[action].some(i => pad.buttons[i]?.pressed)
+      );
+      if (down !== held[action]) {
+        held[action] = down;
+        changes.push({ action, pressed: down });
+      }
+    }
+    return changes;
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { EngineInput, EngineState, createEngineState, stepEngine } from './engine';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+
+/** Step from a fresh state, pressing jump every `jumpEvery` steps and releasing shortly after */
+function run(seed: number, steps: number, jumpEvery = 45): EngineState {
+  let state = createEngineState(WIDTH, HEIGHT, seed);
+  for (let step = 0; step < steps; step++) {
+    const inputs: EngineInput[] = [];
+    if (step % jumpEvery === 0) inputs.push({ type: 'press' });
+    if (step % jumpEvery === 10) inputs.push({ type: 'release' });
+    state = stepEngine(state, inputs).state;
+  }
+  return state;
+}
+
+describe('stepEngine', () => {
+  it('gives the same state for the same seed and inputs', () => {
+    expect(run(1234, 600)).toEqual(run(1234, 600));
+  });
+
+  it('spawns differently for a different seed', () => {
+    expect(run(1234, 600).items).not.toEqual(run(4321, 600).items);
+  });
+
+  it('never mutates the state it was given', () => {
+    const before = run(99, 120);
+    const snapshot = structuredClone(before);
+    stepEngine(before, [{ type: 'press' }]);
+    expect(before).toEqual(snapshot);
+  });
+
+  it('jumps on a press from the ground', () => {
+    let grounded = createEngineState(WIDTH, HEIGHT, 7);
+    for (let step = 0; step < 30; step++) grounded = stepEngine(grounded, []).state;
+    const { state, events } = stepEngine(grounded, [{ type: 'press' }]);
+    expect(events).toContainEqual({ type: 'jump' });
+    expect(state.playerVelocity).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,645 @@
+import { ItemType } from './types';
+import { createRng } from './rng';
+import { PROGRESSION } from './progression';
+
+// =====================================================
+// HEADLESS GAME ENGINE
+// =====================================================
+// All simulation (physics, spawning, collisions, combos, power-ups) lives here
+// with no DOM or canvas access. `stepEngine` takes the previous state, the
+// input events since the last step and the elapsed time, and returns a fresh
+// state plus the events that happened. GameView only renders the result.
+
+// Physics — tuned for tight, responsive platformer feel
+export const GRAVITY_RISE = 0.32;         // Rising gravity (slightly lighter than base for a clean arc)
+export const GRAVITY_FALL = 0.52;         // Falling gravity (heavier — snappy descent, clear weight)
+export const GRAVITY_APEX = 0.14;         // Apex gravity (brief float at top of jump)
+export const APEX_VEL_ZONE = 2.8;         // Velocity range where apex float blends in
+export const JUMP_VELOCITY = -14.0;       // Initial jump impulse
+export const JUMP_CUT = 0.48;            // One-shot velocity multiplier on early release
+export const MAX_FALL_SPEED = 16;         // Terminal velocity cap
+export const COYOTE_MS = 80;             // Grace period after leaving ground/rail (ms)
+export const JUMP_BUFFER_MS = 100;        // Pre-land jump buffer window (ms)
+export const SQUASH_LERP = 0.2;          // Squash/stretch recovery speed (higher = snappier)
+export const BASE_SPAWN_RATE = 900;
+export const RAIL_SPAWN_CHANCE = 0.45;
+export const COMBO_WINDOW_MS = 1500;      // Time to the next catch before the combo drops (paused while grinding)
+export const POWER_UP_MS = 5000;          // How long 2x score and the magnet last
+
+/**
+ * Fixed simulation step (60 steps per second). The renderer runs the engine in
+ * whole steps of this size regardless of display refresh rate, so gameplay is
+ * identical at 30, 60 or 144Hz. `dt` of 1 equals one step.
+ */
+export const FRAME_MS = 1000 / 60;
+
+// Layout
+export const PLAYER_HEIGHT = 100;
+const PLAYER_X_RATIO = 0.15;
+const GROUND_OFFSET = 100;
+
+export interface GameItem {
+  id: number;            // Stable identity across steps (for render interpolation)
+  x: number;
+  y: number;
+  type: ItemType;
+  speed: number;
+  size: number;
+  length?: number;
+  slope?: number;
+  phase?: number;        // Random offset for bobbing animation
+  baseY?: number;        // Original Y for bobbing reference
+}
+
+export interface Particle {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  life: number;
+  type: 'heart' | 'sparkle' | 'combo';
+  text?: string;
+  scale?: number;
+}
+
+export type CompanionReaction = 'idle' | 'happy' | 'grind' | 'worried';
+
+export interface EngineState {
+  width: number;
+  height: number;
+  seed: number;                 // Seed the run was started with
+  rngState: number;             // Current PRNG state — all randomness flows through it
+  time: number;                 // Simulated ms since the run started
+  score: number;
+  over: boolean;                // Set once the player hits an obstacle without a shield
+
+  // Player
+  playerY: number;
+  playerVelocity: number;
+  isGrinding: boolean;
+  grindSlope: number;
+  jumpHeld: boolean;
+  coyoteTimer: number;          // ms remaining for coyote time
+  jumpBufferTimer: number;      // ms remaining in jump buffer
+  wasGrounded: boolean;         // Was on ground/rail last step
+  squash: { scaleX: number; scaleY: number };
+
+  // World
+  items: GameItem[];
+  nextItemId: number;
+  particles: Particle[];
+  lastSpawn: number;
+  bgOffset: number;
+
+  // Combo system
+  comboCount: number;
+  comboTimer: number;
+  comboDisplay: { text: string; alpha: number; scale: number };
+
+  // Power-up active effects
+  doubleScoreTimer: number;
+  magnetTimer: number;
+  shieldActive: boolean;
+
+  // Milestone messages
+  milestoneDisplay: { text: string; alpha: number };
+  lastMilestone: number;
+
+  // Companion
+  companionReaction: CompanionReaction;
+  companionReactionTimer: number;
+
+  screenShake: { x: number; y: number; intensity: number };
+}
+
+/** Jump presses/releases, and viewport changes — spawning and layout depend on the size */
+export type EngineInput =
+  | { type: 'press' }
+  | { type: 'release' }
+  | { type: 'resize'; width: number; height: number };
+
+export type EngineEvent =
+  | { type: 'jump' }
+  | { type: 'land' }
+  | { type: 'grind' }
+  | { type: 'combo'; count: number }
+  | { type: 'collect'; item: ItemType }
+  | { type: 'shield-break' }
+  | { type: 'milestone'; message: string }
+  | { type: 'gameover'; score: number };
+
+export interface StepResult {
+  state: EngineState;
+  events: EngineEvent[];
+}
+
+export const getPlayerX = (state: EngineState) => state.width * PLAYER_X_RATIO;
+export const getGroundY = (state: EngineState) => state.height - GROUND_OFFSET;
+
+export const isBall = (type: ItemType) =>
+  type === 'ball' || type === 'greatball' || type === 'ultraball' || type === 'masterball';
+
+export function createEngineState(width: number, height: number, seed: number): EngineState {
+  return {
+    width,
+    height,
+    seed,
+    rngState: seed >>> 0,
+    time: 0,
+    score: 0,
+    over: false,
+    playerY: height - 200,
+    playerVelocity: 0,
+    isGrinding: false,
+    grindSlope: 0,
+    jumpHeld: false,
+    coyoteTimer: 0,
+    jumpBufferTimer: 0,
+    wasGrounded: true,
+    squash: { scaleX: 1, scaleY: 1 },
+    items: [],
+    nextItemId: 0,
+    particles: [],
+    lastSpawn: -BASE_SPAWN_RATE, // Spawn on the very first step
+    bgOffset: 0,
+    comboCount: 0,
+    comboTimer: 0,
+    comboDisplay: { text: '', alpha: 0, scale: 1 },
+    doubleScoreTimer: 0,
+    magnetTimer: 0,
+    shieldActive: false,
+    milestoneDisplay: { text: '', alpha: 0 },
+    lastMilestone: 0,
+    companionReaction: 'idle',
+    companionReactionTimer: 0,
+    screenShake: { x: 0, y: 0, intensity: 0 },
+  };
+}
+
+function cloneState(s: EngineState): EngineState {
+  return {
+    ...s,
+    squash: { ...s.squash },
+    items: s.items.map(i => ({ ...i })),
+    particles: s.particles.map(p => ({ ...p })),
+    comboDisplay: { ...s.comboDisplay },
+    milestoneDisplay: { ...s.milestoneDisplay },
+    screenShake: { ...s.screenShake },
+  };
+}
+
+/**
+ * Advance the simulation by one step (FRAME_MS unless told otherwise).
+ * Inputs are applied first, in order, as if they arrived just before this step.
+ * The previous state is never mutated.
+ */
+export function stepEngine(prev: EngineState, inputs: EngineInput[], dtMs = FRAME_MS): StepResult {
+  const s = cloneState(prev);
+  const events: EngineEvent[] = [];
+  const emit = (e: EngineEvent) => events.push(e);
+  const rng = createRng(s.rngState);
+  const random = rng.next;
+
+  // Resizes land before anything is laid out for this step
+  for (const input of inputs) {
+    if (input.type === 'resize') {
+      s.width = input.width;
+      s.height = input.height;
+    }
+  }
+
+  const { width } = s;
+  const playerX = getPlayerX(s);
+  const groundY = getGroundY(s);
+  const dt = dtMs / FRAME_MS;
+  s.time += dtMs;
+  const time = s.time;
+
+  // --- INPUT ---
+  for (const input of inputs) {
+    if (input.type === 'press') {
+      s.jumpHeld = true;
+      const onGround = s.playerY >= groundY - PLAYER_HEIGHT - 1;
+      const canJump = onGround || s.isGrinding || s.coyoteTimer > 0;
+      if (canJump) {
+        executeJump(s, playerX, random);
+        emit({ type: 'jump' });
+      } else {
+        s.jumpBufferTimer = JUMP_BUFFER_MS;
+      }
+    } else if (input.type === 'release') {
+      s.jumpHeld = false;
+      if (s.playerVelocity < -0.5) {
+        s.playerVelocity *= JUMP_CUT;
+      }
+    }
+  }
+
+  // --- DIFFICULTY SCALING ---
+  const currentScore = s.score;
+  const getSpeed = () => 6 + Math.min(currentScore * 0.08, 5);
+  const getSpawnRate = () => Math.max(500, BASE_SPAWN_RATE - currentScore * 4);
+  const speed = getSpeed();
+
+  // --- PARALLAX UPDATE ---
+  s.bgOffset += speed * 0.5 * dt;
+
+  // --- COMBO TIMER ---
+  if (s.comboCount > 0 && !s.isGrinding) {
+    s.comboTimer -= dtMs;
+    if (s.comboTimer <= 0) {
+      s.comboCount = 0;
+    }
+  }
+
+  // --- POWER-UP TIMERS ---
+  if (s.doubleScoreTimer > 0) s.doubleScoreTimer -= dtMs;
+  if (s.magnetTimer > 0) s.magnetTimer -= dtMs;
+
+  // --- MILESTONE CHECK ---
+  const floorScore = Math.floor(currentScore);
+  for (const m of PROGRESSION.milestones) {
+    if (floorScore >= m.score && s.lastMilestone < m.score) {
+      s.milestoneDisplay = { text: m.message, alpha: 1 };
+      s.lastMilestone = m.score;
+      emit({ type: 'milestone', message: m.message });
+    }
+  }
+  if (s.milestoneDisplay.alpha > 0) {
+    s.milestoneDisplay.alpha -= 0.005 * dt;
+  }
+
+  // --- COMBO DISPLAY FADE ---
+  if (s.comboDisplay.alpha > 0) {
+    s.comboDisplay.alpha -= 0.015 * dt;
+    s.comboDisplay.scale *= Math.pow(0.995, dt);
+  }
+
+  // --- COMPANION ---
+  if (s.companionReactionTimer > 0) {
+    s.companionReactionTimer -= dtMs;
+    if (s.companionReactionTimer <= 0) s.companionReaction = 'idle';
+  }
+  if (s.isGrinding) s.companionReaction = 'grind';
+
+  // --- COYOTE & JUMP BUFFER TIMERS ---
+  const isOnGround = s.playerY >= groundY - PLAYER_HEIGHT - 1;
+  const grounded = isOnGround || s.isGrinding;
+
+  if (grounded) {
+    s.coyoteTimer = COYOTE_MS;
+  } else {
+    s.coyoteTimer = Math.max(0, s.coyoteTimer - dtMs);
+  }
+  if (s.jumpBufferTimer > 0) {
+    s.jumpBufferTimer = Math.max(0, s.jumpBufferTimer - dtMs);
+  }
+
+  // Execute buffered jump if we just landed and buffer is active
+  if (grounded && s.jumpBufferTimer > 0 && !s.wasGrounded) {
+    s.jumpBufferTimer = 0;
+    s.coyoteTimer = 0;
+    s.isGrinding = false;
+    s.playerVelocity = JUMP_VELOCITY;
+    s.squash = { scaleX: 0.82, scaleY: 1.25 };
+    for (let i = 0; i < 5; i++) s.particles.push({
+      x: playerX + 20, y: s.playerY + 95,
+      vx: (random() - 0.5) * 7, vy: 2 + random() * 2,
+      life: 0.8, type: 'sparkle'
+    });
+    emit({ type: 'jump' });
+  }
+
+  // Landing detection — trigger squash on landing
+  if (grounded && !s.wasGrounded) {
+    s.squash = { scaleX: 1.2, scaleY: 0.75 };
+    emit({ type: 'land' });
+  }
+  s.wasGrounded = grounded;
+
+  // --- ASYMMETRIC GRAVITY (smoothly interpolated through apex) ---
+  if (!s.isGrinding) {
+    const vel = s.playerVelocity;
+    const absVel = Math.abs(vel);
+    let gravity: number;
+
+    if (absVel < APEX_VEL_ZONE) {
+      // Inside apex zone — smoothly blend between rise/fall and apex gravity
+      // t goes from 0 (at exact apex) to 1 (at zone edge)
+      const t = absVel / APEX_VEL_ZONE;
+      // Ease-in (t²) so the float is most noticeable right at the peak
+      const edgeGravity = vel <= 0 ? GRAVITY_RISE : GRAVITY_FALL;
+      gravity = GRAVITY_APEX + (edgeGravity - GRAVITY_APEX) * (t * t);
+    } else if (vel < 0) {
+      gravity = GRAVITY_RISE;
+    } else {
+      gravity = GRAVITY_FALL;
+    }
+
+    s.playerVelocity += gravity * dt;
+
+    // Terminal velocity
+    if (s.playerVelocity > MAX_FALL_SPEED) {
+      s.playerVelocity = MAX_FALL_SPEED;
+    }
+
+    s.playerY += s.playerVelocity * dt;
+  }
+
+  // Ground Boundary
+  if (s.playerY > groundY - PLAYER_HEIGHT) {
+    s.playerY = groundY - PLAYER_HEIGHT;
+    s.playerVelocity = 0;
+  }
+
+  // --- SQUASH/STRETCH DECAY ---
+  s.squash.scaleX += (1 - s.squash.scaleX) * SQUASH_LERP * dt;
+  s.squash.scaleY += (1 - s.squash.scaleY) * SQUASH_LERP * dt;
+
+  // --- SCREEN SHAKE DECAY ---
+  if (s.screenShake.intensity > 0) {
+    s.screenShake.x = (random() - 0.5) * s.screenShake.intensity;
+    s.screenShake.y = (random() - 0.5) * s.screenShake.intensity;
+    s.screenShake.intensity *= Math.pow(0.88, dt);
+    if (s.screenShake.intensity < 0.3) {
+      s.screenShake = { x: 0, y: 0, intensity: 0 };
+    }
+  }
+
+  // --- SPAWNING ---
+  if (time - s.lastSpawn > getSpawnRate()) {
+    const rand = random();
+    if (rand < RAIL_SPAWN_CHANCE) {
+      const tier = random();
+      const railY = tier < 0.4 ? groundY - 60 - random() * 40
+                  : tier < 0.75 ? groundY - 120 - random() * 50
+                  : groundY - 190 - random() * 30;
+      const isSlanted = random() < 0.5;
+      let slope = isSlanted
+        ? (random() < 0.7 ? 100 + random() * 80 : -(80 + random() * 60))
+        : 0;
+      const maxY = groundY - 15;
+      if (railY + slope > maxY) slope = maxY - railY;
+      s.items.push({
+        id: s.nextItemId++,
+        x: width + 100, y: railY, type: 'rail', speed, size: 10,
+        length: 250 + random() * 250, slope
+      });
+    } else {
+      // Determine item type
+      const typeRand = random();
+      let itemType: ItemType;
+      if (rand > 0.82) {
+        itemType = 'obstacle';
+      } else if (typeRand < 0.005) {
+        itemType = 'masterball';
+      } else if (typeRand < 0.025) {
+        itemType = 'ultraball';
+      } else if (typeRand < 0.075) {
+        itemType = 'greatball';
+      } else {
+        itemType = 'ball';
+      }
+
+      const ballY = groundY - 30 - random() * 200;
+      const obstacleH = 40 + random() * 25;
+      const yPos = itemType === 'obstacle' ? groundY - obstacleH : ballY;
+      s.items.push({
+        id: s.nextItemId++,
+        x: width + 100,
+        y: yPos,
+        type: itemType,
+        speed,
+        size: itemType === 'obstacle' ? obstacleH : 40,
+        phase: random() * Math.PI * 2,
+        baseY: yPos
+      });
+    }
+    s.lastSpawn = time;
+  }
+
+  // --- PARTICLES UPDATE (with gravity on sparkles) ---
+  s.particles = s.particles.filter(p => {
+    p.x += p.vx * dt;
+    p.y += p.vy * dt;
+    if (p.type === 'sparkle') p.vy += 0.08 * dt; // Subtle gravity on sparkles
+    p.vx *= Math.pow(0.98, dt); // Air resistance
+    p.life -= 0.02 * dt;
+    return p.life > 0;
+  });
+
+  // Trail particles during grind
+  if (s.isGrinding && random() > 0.5) {
+    s.particles.push({
+      x: playerX + 10, y: s.playerY + 95,
+      vx: -1 - random() * 2, vy: -random() * 1.5,
+      life: 0.8, type: random() > 0.7 ? 'heart' : 'sparkle'
+    });
+  }
+
+  // Helper: add score with combo multiplier
+  const addScore = (base: number) => {
+    const combo = Math.max(1, s.comboCount);
+    const doubleActive = s.doubleScoreTimer > 0 ? 2 : 1;
+    s.score += base * combo * doubleActive;
+  };
+
+  // Helper: trigger combo
+  const triggerCombo = () => {
+    s.comboCount++;
+    s.comboTimer = COMBO_WINDOW_MS;
+    if (s.comboCount >= 2) {
+      s.comboDisplay = {
+        text: `x${s.comboCount} COMBO!`,
+        alpha: 1,
+        scale: 1.5
+      };
+      emit({ type: 'combo', count: s.comboCount });
+    }
+    s.companionReaction = 'happy';
+    s.companionReactionTimer = 500;
+  };
+
+  // --- MAGNET EFFECT (eased pull — stronger when closer) ---
+  if (s.magnetTimer > 0) {
+    s.items.forEach(item => {
+      if (isBall(item.type)) {
+        const dx = (playerX + 20) - (item.x + 20);
+        const dy = (s.playerY + 50) - (item.y + 20);
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist < 220 && dist > 8) {
+          // Quadratic easing: pull strength increases as item gets closer
+          const t = 1 - dist / 220;
+          const pullStrength = (2 + t * t * 8) * dt;
+          item.x += dx / dist * pullStrength;
+          item.y += dy / dist * pullStrength;
+        }
+      }
+    });
+  }
+
+  // --- PROCESS ITEMS & COLLISION ---
+  let onRail = false;
+  s.items = s.items.filter(item => {
+    item.x -= item.speed * dt;
+
+    if (item.type === 'rail' && item.length) {
+      const feetY = s.playerY + PLAYER_HEIGHT;
+      const slopeVal = item.slope || 0;
+      const progress = Math.max(0, Math.min(1, (playerX + 20 - item.x) / item.length));
+      const railYAtPlayer = item.y + progress * slopeVal;
+      if (!s.isGrinding && s.playerVelocity >= 0 && feetY >= railYAtPlayer - 10 && feetY <= railYAtPlayer + 35 &&
+        playerX + 25 > item.x && playerX + 15 < item.x + item.length) {
+        s.isGrinding = true;
+        s.grindSlope = slopeVal;
+        s.playerY = railYAtPlayer - PLAYER_HEIGHT;
+        s.playerVelocity = 0;
+        triggerCombo();
+        emit({ type: 'grind' });
+      }
+      if (s.isGrinding && playerX + 20 >= item.x && playerX + 20 <= item.x + item.length) {
+        onRail = true;
+        s.playerY = railYAtPlayer - PLAYER_HEIGHT;
+        addScore(0.12 * dt);
+      }
+    } else if (isBall(item.type)) {
+      // Apply bobbing to ball Y position
+      if (item.phase !== undefined && item.baseY !== undefined) {
+        item.y = item.baseY + Math.sin(time * 0.004 + item.phase) * 6;
+      }
+
+      const dx = (playerX + 20) - (item.x + 20);
+      const dy = (s.playerY + 50) - (item.y + 20);
+      const dist = Math.sqrt(dx * dx + dy * dy);
+
+      // Slightly generous hitbox (44 instead of 40) — feels more responsive
+      if (dist < 44) {
+        triggerCombo();
+        // Score based on type
+        if (item.type === 'ball') {
+          addScore(1);
+          s.screenShake.intensity = Math.max(s.screenShake.intensity, 2);
+        } else if (item.type === 'greatball') {
+          addScore(2);
+          s.doubleScoreTimer = POWER_UP_MS;
+          s.screenShake.intensity = Math.max(s.screenShake.intensity, 3.5);
+        } else if (item.type === 'ultraball') {
+          addScore(3);
+          s.magnetTimer = POWER_UP_MS;
+          s.screenShake.intensity = Math.max(s.screenShake.intensity, 4);
+        } else if (item.type === 'masterball') {
+          addScore(5);
+          s.shieldActive = true;
+          s.screenShake.intensity = Math.max(s.screenShake.intensity, 6);
+        }
+        emit({ type: 'collect', item: item.type });
+
+        // Radial particle burst — more particles, directional spread
+        const particleType = item.type === 'masterball' ? 'heart' : 'sparkle';
+        const burstCount = item.type === 'masterball' ? 14 : item.type === 'ball' ? 8 : 11;
+        for (let k = 0; k < burstCount; k++) {
+          const angle = (k / burstCount) * Math.PI * 2 + random() * 0.4;
+          const spd = 3 + random() * 5;
+          s.particles.push({
+            x: item.x + 20, y: item.y + 20,
+            vx: Math.cos(angle) * spd,
+            vy: Math.sin(angle) * spd - 2,
+            life: 0.7 + random() * 0.4,
+            type: particleType
+          });
+        }
+
+        // Brief squash on collect for feedback
+        s.squash = { scaleX: 1.08, scaleY: 0.92 };
+        return false;
+      }
+    } else if (item.type === 'obstacle' && !s.isGrinding) {
+      const feetY = s.playerY + PLAYER_HEIGHT;
+      const overlapX = playerX + 35 > item.x && playerX + 5 < item.x + 30;
+      const overlapY = feetY > item.y + 5;
+      if (overlapX && overlapY) {
+        if (s.shieldActive) {
+          s.shieldActive = false;
+          s.screenShake.intensity = 8;
+          // Shield absorb — big radial burst
+          for (let k = 0; k < 16; k++) {
+            const angle = (k / 16) * Math.PI * 2;
+            const spd = 4 + random() * 6;
+            s.particles.push({
+              x: playerX + 20, y: s.playerY + 50,
+              vx: Math.cos(angle) * spd,
+              vy: Math.sin(angle) * spd,
+              life: 1, type: 'heart'
+            });
+          }
+          s.companionReaction = 'happy';
+          s.companionReactionTimer = 800;
+          emit({ type: 'shield-break' });
+          return false;
+        }
+        // Death hit — strong shake
+        s.screenShake.intensity = 12;
+        if (!s.over) {
+          s.over = true;
+          emit({ type: 'gameover', score: Math.floor(s.score) });
+        }
+        return false;
+      }
+    }
+    return item.x > -item.size - (item.length || 0);
+  });
+
+  if (s.isGrinding && !onRail) {
+    s.isGrinding = false;
+    s.grindSlope = 0;
+  }
+
+  // Check for nearby obstacles -> companion worried
+  if (!s.isGrinding) {
+    const nearObstacle = s.items.some(item =>
+      item.type === 'obstacle' && item.x - playerX < 120 && item.x - playerX > 0
+    );
+    if (nearObstacle && s.companionReaction === 'idle') {
+      s.companionReaction = 'worried';
+    }
+  }
+
+  s.rngState = rng.state();
+  return { state: s, events };
+}
+
+/**
+ * Blend two consecutive steps for rendering between them (`alpha` in [0, 1]).
+ * Only positions are interpolated; everything else comes from `curr`.
+ */
+export function interpolateState(prev: EngineState, curr: EngineState, alpha: number): EngineState {
+  if (alpha <= 0 || prev === curr) return curr;
+  const lerp = (a: number, b: number) => a + (b - a) * alpha;
+  const prevItems = new Map(prev.items.map(i => [i.id, i]));
+  return {
+    ...curr,
+    time: lerp(prev.time, curr.time),
+    playerY: lerp(prev.playerY, curr.playerY),
+    bgOffset: lerp(prev.bgOffset, curr.bgOffset),
+    items: curr.items.map(item => {
+      const before = prevItems.get(item.id);
+      return before ? { ...item, x: lerp(before.x, item.x), y: lerp(before.y, item.y) } : item;
+    }),
+  };
+}
+
+function executeJump(s: EngineState, playerX: number, random: () => number) {
+  s.coyoteTimer = 0;
+  s.jumpBufferTimer = 0;
+  s.isGrinding = false;
+  s.playerVelocity = JUMP_VELOCITY;
+  s.squash = { scaleX: 0.82, scaleY: 1.25 };
+  for (let i = 0; i < 6; i++) s.particles.push({
+    x: playerX + 10 + random() * 20,
+    y: s.playerY + 92,
+    vx: (random() - 0.5) * 7,
+    vy: 1.5 + random() * 3,
+    life: 0.6 + random() * 0.3,
+    type: 'sparkle'
+  });
+}
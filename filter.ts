@@ -0,0 +1,77 @@
+import { Memory } from './types';
+import { monthLabel, parseMemoryDate } from './timeline';
+
+// =====================================================
+// MEMORY BOOK SEARCH — text search, tag chips and favourites
+// =====================================================
+// Only ever run over unlocked memories, so searching can't reveal a locked
+// one. The filter lives in the URL (?q=beach&tag=summer&tag=road+trip&fav=1)
+// so a reload or a shared link opens the book with the same filter.
+
+export interface MemoryFilter {
+  query: string;
+  tags: string[];      // Lower-cased; a memory must have every one
+  favorites: boolean;  // Only the player's favourites
+}
+
+export const EMPTY_FILTER: MemoryFilter = { query: '', tags: [], favorites: false };
+
+const QUERY_PARAM = 'q';
+const TAG_PARAM = 'tag';
+const FAVORITES_PARAM = 'fav';
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+export function isFiltering(filter: MemoryFilter): boolean {
+  return filter.query.trim() !== '' || filter.tags.length > 0 || filter.favorites;
+}
+
+/** Everything the search box looks at: caption, location, tags and the date in both forms */
+function searchableText(memory: Memory): string {
+  const date = parseMemoryDate(memory.date);
+  return [memory.caption, memory.location, ...(memory.tags ?? []), memory.date, date && monthLabel(date)]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+}
+
+/** Every word of the query has to appear somewhere, in any order */
+export function matchesFilter(memory: Memory, filter: MemoryFilter, favoriteIds: string[]): boolean {
+  if (filter.favorites && !favoriteIds.includes(memory.id)) return false;
+  const tags = new Set((memory.tags ?? []).map(normalize));
+  if (!filter.tags.every(tag => tags.has(tag))) return false;
+  const text = searchableText(memory);
+  return normalize(filter.query).split(/\s+/).every(word => text.includes(word));
+}
+
+/** Tags on these memories, most used first — the chips under the search box */
+export function tagsIn(memories: Memory[]): string[] {
+  const counts = new Map<string, number>();
+  for (const memory of memories) {
+    for (const tag of new Set((memory.tags ?? []).map(normalize))) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([tag]) => tag);
+}
+
+export function readFilterFromUrl(): MemoryFilter {
+  const params = new URLSearchParams(window.location.search);
+  return {
+    query: params.get(QUERY_PARAM) ?? '',
+    tags: [...new Set(params.getAll(TAG_PARAM).map(normalize).filter(Boolean))],
+    favorites: params.get(FAVORITES_PARAM) === '1',
+  };
+}
+
+/** Update the address bar in place — filtering shouldn't fill up the back button's history */
+export function writeFilterToUrl(filter: MemoryFilter): void {
+  const url = new URL(window.location.href);
+  url.searchParams.delete(QUERY_PARAM);
+  url.searchParams.delete(TAG_PARAM);
+  url.searchParams.delete(FAVORITES_PARAM);
+  if (filter.query.trim()) url.searchParams.set(QUERY_PARAM, filter.query);
+  for (const tag of filter.tags) url.searchParams.append(TAG_PARAM, tag);
+  if (filter.favorites) url.searchParams.set(FAVORITES_PARAM, '1');
+  window.history.replaceState(window.history.state, '', url);
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { Memory } from './types';
+import { ManifestError, validateManifest } from './manifest';
+
+const MANIFEST_URL = 'https://example.com/media/memories.json';
+
+const memory = (id: string, extra: Partial<Memory> = {}) => ({
+  id,
+  caption: `Memory ${id}`,
+  media: [{ type: 'image', url: `${id}.jpg` }],
+  ...extra,
+});
+
+/** The problems validateManifest reports, or [] if it accepts the manifest */
+function problemsWith(memories: object[]): string[] {
+  try {
+    validateManifest({ version: 1, unlockMode: 'story', memories }, MANIFEST_URL);
+    return [];
+  } catch (err) {
+    if (err instanceof ManifestError) return err.problems;
+    throw err;
+  }
+}
+
+describe('validateManifest', () => {
+  it('accepts prerequisites that fit the unlock order', () => {
+    expect(problemsWith([
+      memory('a', { unlockOrder: 1 }),
+      memory('b', { unlockOrder: 2, prerequisites: ['a'] }),
+      memory('c', { prerequisites: ['b'] }),
+    ])).toEqual([]);
+  });
+
+  it('rejects prerequisites that go round in a circle', () => {
+    expect(problemsWith([
+      memory('a', { prerequisites: ['b'] }),
+      memory('b', { prerequisites: ['a'] }),
+    ])).toEqual([expect.stringMatching(/circle.*\b(a, b|b, a)\b/)]);
+  });
+
+  it('rejects a memory ordered before one of its prerequisites', () => {
+    expect(problemsWith([
+      memory('a', { unlockOrder: 1, prerequisites: ['b'] }),
+      memory('b', { unlockOrder: 2 }),
+    ])).toEqual([expect.stringContaining('"a" has unlockOrder 1 but needs "b" (unlockOrder 2)')]);
+  });
+
+  it('follows prerequisites through memories without an order', () => {
+    expect(problemsWith([
+      memory('a', { unlockOrder: 1, prerequisites: ['middle'] }),
+      memory('middle', { prerequisites: ['b'] }),
+      memory('b', { unlockOrder: 2 }),
+    ])).toEqual([expect.stringContaining('"a" has unlockOrder 1 but needs "b"')]);
+  });
+});
@@ -0,0 +1,249 @@
+import { Memory, MediaItem, UnlockMode } from './types';
+import { MEMORY_POOL, B2, UNLOCK_MODE } from './memories';
+
+// =====================================================
+// MEMORY MANIFEST — the memory pool as data
+// =====================================================
+// The pool is read from `<base url>/memories.json` so memories can be added
+// without a redeploy. Media URLs in the manifest may be relative to the
+// manifest itself. If it can't be fetched or fails validation we fall back to
+// the pool bundled in memories.ts.
+//
+//   {
+//     "version": 1,
+//     "unlockMode": "story",                           (optional, "random" by default)
+//     "memories": [
+//       {
+//         "id": "ily-night",
+//         "caption": "The night you said you loved me",
+//         "date": "2024-03-02",                        (optional)
+//         "tags": ["first date", "night out"],          (optional)
+//         "location": "Petco Park, San Diego",          (optional)
+//         "unlockOrder": 2,                             (optional, see unlocks.ts)
+//         "prerequisites": ["official-gf"],             (optional)
+//         "minTotalCollected": 20,                      (optional)
+//         "media": [
+//           { "type": "image", "url": "ILY_night/IMG_3974.jpg",
+//             "thumbnail": "ILY_night/thumbs/IMG_3974.jpg.webp", "width": 3024, "height": 4032 },  (optional)
+//           { "type": "video", "url": "ILY_night/IMG_4001.MOV", "mimeType": "video/quicktime; codecs=\"hvc1\"",
+//             "renditions": [{ "url": "ILY_night/renditions/IMG_4001.MOV.mp4", "mimeType": "video/mp4; ..." }] }
+//         ]
+//       }
+//     ]
+//   }
+
+export const MANIFEST_VERSION = 1;
+export const MANIFEST_FILE = 'memories.json';
+
+/** Where memories.json lives — set VITE_MEMORIES_BASE_URL to point at another bucket */
+export const MEMORIES_BASE_URL: string = import.meta.env.VITE_MEMORIES_BASE_URL ?? B2;
+
+export interface MemoryManifest {
+  version: number;
+  unlockMode?: UnlockMode;
+  memories: Memory[];
+}
+
+/** Thrown when a manifest doesn't match the schema — lists every problem found */
+export class ManifestError extends Error {
+  constructor(public problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'ManifestError';
+  }
+}
+
+const MEDIA_TYPES: MediaItem['type'][] = ['image', 'video'];
+const UNLOCK_MODES: UnlockMode[] = ['random', 'story'];
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isPixelSize = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/** Memories whose prerequisites lead back to themselves — they could never unlock */
+function prerequisiteCycles(memories: Memory[]): string[] {
+  const byId = new Map(memories.map(m => [m.id, m]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stuck: string[] = [];
+  const visit = (id: string): boolean => {
+    if (state.get(id) === 'visiting') return true;
+    if (state.get(id) === 'done' || !byId.has(id)) return false;
+    state.set(id, 'visiting');
+    const cyclic = (byId.get(id)!.prerequisites ?? []).some(visit);
+    state.set(id, 'done');
+    if (cyclic) stuck.push(id);
+    return cyclic;
+  };
+  memories.forEach(m => visit(m.id));
+  return stuck;
+}
+
+/**
+ * A memory waits for every lower `unlockOrder` — so one that (even indirectly)
+ * requires a memory with a higher order could never unlock, and neither could
+ * anything ordered after it. Run after the cycle check.
+ */
+function unlockOrderConflicts(memories: Memory[]): string[] {
+  const byId = new Map(memories.map(m => [m.id, m]));
+  const requiredBy = (memory: Memory, found = new Set<string>()): Set<string> => {
+    for (const id of memory.prerequisites ?? []) {
+      if (found.has(id) || !byId.has(id)) continue;
+      found.add(id);
+      requiredBy(byId.get(id)!, found);
+    }
+    return found;
+  };
+  return memories.flatMap(memory => {
+    const order = memory.unlockOrder;
+    if (order === undefined) return [];
+    return [...requiredBy(memory)]
+      .map(id => byId.get(id)!)
+      .filter(required => required.unlockOrder !== undefined && required.unlockOrder > order)
+      .map(required => `"${memory.id}" has unlockOrder ${order} but needs "${required.id}" (unlockOrder ${required.unlockOrder}) first, so it could never unlock`);
+  });
+}
+
+/** Check a parsed manifest and resolve its media URLs against `manifestUrl` */
+export function validateManifest(input: unknown, manifestUrl: string): MemoryManifest {
+  const data = input as Partial<MemoryManifest> | null;
+  if (typeof data !== 'object' || data === null) throw new ManifestError(['manifest is not an object']);
+  if (data.version !== MANIFEST_VERSION) {
+    throw new ManifestError([`unsupported manifest version ${String(data.version)} (expected ${MANIFEST_VERSION})`]);
+  }
+  if (!Array.isArray(data.memories) || data.memories.length === 0) {
+    throw new ManifestError(['memories must be a non-empty list']);
+  }
+
+  const problems: string[] = [];
+  if (data.unlockMode !== undefined && !UNLOCK_MODES.includes(data.unlockMode)) {
+    problems.push('unlockMode must be "random" or "story"');
+  }
+  const seen = new Set<string>();
+  const resolve = (url: string) => new URL(url, manifestUrl).toString();
+
+  const memories = data.memories.map((raw: Partial<Memory>, i): Memory => {
+    const at = `memories[${i}]`;
+    if (!isNonEmptyString(raw?.id)) problems.push(`${at}.id must be a non-empty string`);
+    else if (seen.has(raw.id)) problems.push(`${at}.id "${raw.id}" is used twice`);
+    else seen.add(raw.id);
+    if (!isNonEmptyString(raw?.caption)) problems.push(`${at}.caption must be a non-empty string`);
+    if (raw?.date !== undefined && (typeof raw.date !== 'string' || Number.isNaN(Date.parse(raw.date)))) {
+      problems.push(`${at}.date must be a date like 2024-03-02`);
+    }
+    if (raw?.tags !== undefined && (!Array.isArray(raw.tags) || !raw.tags.every(isNonEmptyString))) {
+      problems.push(`${at}.tags must be a list of non-empty strings`);
+    }
+    if (raw?.location !== undefined && !isNonEmptyString(raw.location)) {
+      problems.push(`${at}.location must be a non-empty string`);
+    }
+    if (raw?.unlockOrder !== undefined && (typeof raw.unlockOrder !== 'number' || !Number.isFinite(raw.unlockOrder))) {
+      problems.push(`${at}.unlockOrder must be a number`);
+    }
+    if (raw?.prerequisites !== undefined && (!Array.isArray(raw.prerequisites) || !raw.prerequisites.every(isNonEmptyString))) {
+      problems.push(`${at}.prerequisites must be a list of memory ids`);
+    }
+    if (raw?.minTotalCollected !== undefined && !(Number.isInteger(raw.minTotalCollected) && raw.minTotalCollected >= 0)) {
+      problems.push(`${at}.minTotalCollected must be a whole number`);
+    }
+    if (!Array.isArray(raw?.media) || raw.media.length === 0) {
+      problems.push(`${at}.media must be a non-empty list`);
+    }
+
+    const media = (Array.isArray(raw?.media) ? raw.media : []).map((item: Partial<MediaItem>, j): MediaItem => {
+      const itemAt = `${at}.media[${j}]`;
+      if (!MEDIA_TYPES.includes(item?.type as MediaItem['type'])) problems.push(`${itemAt}.type must be "image" or "video"`);
+      if (!isNonEmptyString(item?.url)) problems.push(`${itemAt}.url must be a non-empty string`);
+      if (item?.thumbnail !== undefined && !isNonEmptyString(item.thumbnail)) {
+        problems.push(`${itemAt}.thumbnail must be a non-empty string`);
+      }
+      for (const key of ['width', 'height'] as const) {
+        if (item?.[key] !== undefined && !isPixelSize(item[key])) problems.push(`${itemAt}.${key} must be a whole number of pixels`);
+      }
+      if (item?.mimeType !== undefined && !isNonEmptyString(item.mimeType)) {
+        problems.push(`${itemAt}.mimeType must be a non-empty string`);
+      }
+      if (item?.renditions !== undefined) {
+        if (item.type !== 'video' || !Array.isArray(item.renditions)) {
+          problems.push(`${itemAt}.renditions must be a list, and only on videos`);
+        } else {
+          item.renditions.forEach((rendition, k) => {
+            if (!isNonEmptyString(rendition?.url) || !isNonEmptyString(rendition?.mimeType)) {
+              problems.push(`${itemAt}.renditions[${k}] needs a url and a mimeType`);
+            }
+          });
+        }
+      }
+      if (problems.length > 0) return item as MediaItem;
+      return {
+        type: item.type!,
+        url: resolve(item.url!),
+        ...(item.mimeType && { mimeType: item.mimeType }),
+        ...(item.renditions && {
+          renditions: item.renditions.map(r => ({ url: resolve(r.url), mimeType: r.mimeType })),
+        }),
+        ...(item.thumbnail && { thumbnail: resolve(item.thumbnail) }),
+        ...(item.width && item.height && { width: item.width, height: item.height }),
+      };
+    });
+
+    return {
+      id: raw?.id as string,
+      caption: raw?.caption as string,
+      media,
+      ...(raw?.date && { date: raw.date }),
+      ...(raw?.tags?.length && { tags: raw.tags.map(tag => tag.trim()) }),
+      ...(raw?.location && { location: raw.location.trim() }),
+      ...(raw?.unlockOrder !== undefined && { unlockOrder: raw.unlockOrder }),
+      ...(raw?.prerequisites?.length && { prerequisites: raw.prerequisites }),
+      ...(raw?.minTotalCollected && { minTotalCollected: raw.minTotalCollected }),
+    };
+  });
+
+  if (problems.length === 0) {
+    memories.forEach((memory, i) => memory.prerequisites?.forEach(id => {
+      if (!seen.has(id)) problems.push(`memories[${i}].prerequisites: no memory has the id "${id}"`);
+      else if (id === memory.id) problems.push(`memories[${i}].prerequisites can't include itself`);
+    }));
+  }
+  if (problems.length === 0) {
+    const stuck = prerequisiteCycles(memories);
+    if (stuck.length > 0) problems.push(`prerequisites go round in a circle, so these could never unlock: ${stuck.join(', ')}`);
+  }
+  if (problems.length === 0) problems.push(...unlockOrderConflicts(memories));
+
+  if (problems.length > 0) throw new ManifestError(problems);
+  return { version: MANIFEST_VERSION, unlockMode: data.unlockMode ?? 'random', memories };
+}
+
+export interface PoolResult {
+  pool: Memory[];
+  unlockMode: UnlockMode;
+  source: 'manifest' | 'bundled';
+  /** Validation problems when a manifest was found but rejected */
+  problems: string[] | null;
+}
+
+export async function loadMemoryPool(baseUrl: string = MEMORIES_BASE_URL): Promise<PoolResult> {
+  const bundled: PoolResult = { pool: MEMORY_POOL, unlockMode: UNLOCK_MODE, source: 'bundled', problems: null };
+  const manifestUrl = `${baseUrl.replace(/\/+$/, '')}/${MANIFEST_FILE}`;
+
+  let text: string;
+  try {
+    const response = await fetch(manifestUrl, { cache: 'no-cache' });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    text = await response.text();
+  } catch (err) {
+    // No manifest published (or offline) — the bundled pool is the expected fallback
+    console.info(`No memory manifest at ${manifestUrl}, using bundled memories`, err);
+    return bundled;
+  }
+
+  try {
+    const manifest = validateManifest(JSON.parse(text), manifestUrl);
+    return { pool: manifest.memories, unlockMode: manifest.unlockMode ?? 'random', source: 'manifest', problems: null };
+  } catch (err) {
+    const problems = err instanceof ManifestError ? err.problems : [`memories.json isn't valid JSON`];
+    return { ...bundled, problems };
+  }
+}
@@ -0,0 +1,40 @@
+import { MediaItem } from './types';
+
+// =====================================================
+// VIDEO SOURCES
+// =====================================================
+// A video can have several renditions (see scripts/transcode-videos.mjs).
+// They're listed as <source> elements and the browser plays the first one it
+// can decode, so the order here is the order of preference.
+
+export interface VideoSource {
+  url: string;
+  mimeType?: string;
+}
+
+/** Renditions first, the original last */
+export function videoSources(item: MediaItem): VideoSource[] {
+  return [...(item.renditions ?? []), { url: item.url, mimeType: item.mimeType }];
+}
+
+let probe: HTMLVideoElement | null = null;
+
+/** Whether the browser might decode a source. Untyped sources have to be tried. */
+function canPlay(source: VideoSource): boolean {
+  probe ??= document.createElement('video');
+  return !source.mimeType || probe.canPlayType(source.mimeType) !== '';
+}
+
+/**
+ * False when we can tell up front that nothing will play: every source
+ * declares a type and the browser rules each one out.
+ */
+export function mightPlay(sources: VideoSource[]): boolean {
+  return sources.some(canPlay);
+}
+
+/** The source the browser will pick from the <source> list */
+export function preferredVideoSource(item: MediaItem): VideoSource {
+  const sources = videoSources(item);
+  return sources.find(canPlay) ?? sources[sources.length - 1];
+}
@@ -1,13 +1,19 @@
-import { Memory } from './types';
+import { Memory, UnlockMode } from './types';
 
 // =====================================================
 // YOUR MEMORY POOL - Add your photos and captions here!
 // =====================================================
+// This is the bundled fallback — the live pool is read from memories.json
+// (see manifest.ts), so new memories don't need a redeploy.
 // Media files are hosted on Backblaze B2.
-// The game randomly unlocks these as she collects Pokeballs.
-// She gets 1 new memory per 5 total Pokeballs collected (across all sessions).
+// The game unlocks these as she collects Pokeballs — at random, or in story
+// order with UNLOCK_MODE below.
+// How many Pokeballs (across all sessions) each one costs is set in progression.ts.
 
-const B2 = 'https://f004.backblazeb2.com/file/pokemon-memories/memories';
+export const B2 = 'https://f004.backblazeb2.com/file/pokemon-memories/memories';
+
+// 'story' unlocks memories by their `unlockOrder` instead of at random (see unlocks.ts)
+export const UNLOCK_MODE: UnlockMode = 'random';
 
 export const MEMORY_POOL: Memory[] = [
 
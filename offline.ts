@@ -0,0 +1,120 @@
+import { Memory } from './types';
+import { preferredVideoSource } from './media';
+
+// =====================================================
+// OFFLINE MEMORIES
+// =====================================================
+// Media for offline viewing lives in a Cache Storage bucket that public/sw.js
+// serves from. The page fills it itself (rather than the worker) so the gallery
+// can show progress and react as each memory finishes.
+
+export const MEDIA_CACHE = 'poke-memories-media'; // Keep in step with public/sw.js
+
+export const offlineSupported = typeof window !== 'undefined' && 'caches' in window;
+
+export function registerServiceWorker() {
+  // In development the worker would serve stale bundles over Vite's hot reload
+  if (!('serviceWorker' in navigator) || !import.meta.env.PROD) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(err => console.warn('Service worker registration failed', err));
+  });
+}
+
+const listeners = new Set<() => void>();
+
+/** Called whenever a memory is added to or removed from the offline cache */
+export function onOfflineChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+const notify = () => listeners.forEach(listener => listener());
+
+/** Files needed to show a memory offline — thumbnails, and the version of each video this browser plays */
+export function offlineUrls(memory: Memory): string[] {
+  return memory.media.flatMap(item => {
+    const full = item.type === 'video' ? preferredVideoSource(item).url : item.url;
+    return item.thumbnail ? [item.thumbnail, full] : [full];
+  });
+}
+
+async function fetchForCache(url: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: 'cors' });
+  } catch {
+    // Hosts without CORS headers — an opaque copy still works for <img> and <video>
+    response = await fetch(url, { mode: 'no-cors' });
+  }
+  if (!response.ok && response.type !== 'opaque') throw new Error(`HTTP ${response.status} for ${url}`);
+  return response;
+}
+
+export async function saveMemoryOffline(memory: Memory): Promise<void> {
+  const cache = await caches.open(MEDIA_CACHE);
+  for (const url of offlineUrls(memory)) {
+    if (await cache.match(url)) continue;
+    await cache.put(url, await fetchForCache(url));
+  }
+  notify();
+}
+
+export async function removeMemoryOffline(memory: Memory): Promise<void> {
+  const cache = await caches.open(MEDIA_CACHE);
+  await Promise.all(offlineUrls(memory).map(url => cache.delete(url)));
+  notify();
+}
+
+/** Ids of the memories whose every file is cached */
+export async function offlineMemoryIds(memories: Memory[]): Promise<Set<string>> {
+  if (!offlineSupported) return new Set();
+  const cache = await caches.open(MEDIA_CACHE);
+  const ids = new Set<string>();
+  for (const memory of memories) {
+    const cached = await Promise.all(offlineUrls(memory).map(url => cache.match(url)));
+    if (cached.every(Boolean)) ids.add(memory.id);
+  }
+  return ids;
+}
+
+/**
+ * Cache each memory in turn, skipping files already saved. Failures are
+ * logged and retried on the next sync. Set `cancel.cancelled` to stop early.
+ */
+export async function syncOfflineMemories(memories: Memory[], cancel: { cancelled: boolean }): Promise<void> {
+  if (!offlineSupported || memories.length === 0) return;
+  // Ask the browser not to evict the cache under storage pressure
+  await navigator.storage?.persist?.().catch(() => false);
+  for (const memory of memories) {
+    if (cancel.cancelled) return;
+    try {
+      await saveMemoryOffline(memory);
+    } catch (err) {
+      console.warn(`Couldn't save "${memory.id}" for offline viewing`, err);
+    }
+  }
+}
+
+export interface StorageUsage {
+  used: number;
+  quota: number;
+}
+
+export async function storageUsage(): Promise<StorageUsage | null> {
+  const estimate = await navigator.storage?.estimate?.().catch(() => null);
+  if (!estimate?.quota) return null;
+  return { used: estimate.usage ?? 0, quota: estimate.quota };
+}
+
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 && unit > 0 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
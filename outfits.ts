@@ -0,0 +1,13 @@
+import { Outfit } from './types';
+
+// When each one unlocks is set in progression.ts
+export const OUTFITS: Outfit[] = [
+  { name: 'Classic Pink', bodyColor: '#db2777', hairColor: '#ff69b4', hairHighlight: '#ff85c0', skateColor: '#db2777', trimColor: '#f9a8d4', companion: 'pikachu' },
+  { name: 'Gardevoir', bodyColor: '#4ade80', hairColor: '#22c55e', hairHighlight: '#86efac', skateColor: '#16a34a', trimColor: '#bbf7d0', companion: 'gardevoir' },
+  { name: 'Pikachu Yellow', bodyColor: '#facc15', hairColor: '#fbbf24', hairHighlight: '#fde68a', skateColor: '#eab308', trimColor: '#fef08a', companion: 'pikachu' },
+  { name: 'Team Rocket', bodyColor: '#1f2937', hairColor: '#6366f1', hairHighlight: '#818cf8', skateColor: '#111827', trimColor: '#4b5563', companion: 'pikachu' },
+  { name: 'Eevee Brown', bodyColor: '#92400e', hairColor: '#a16207', hairHighlight: '#ca8a04', skateColor: '#78350f', trimColor: '#d97706', companion: 'pikachu' },
+  { name: 'Shiny Holo', bodyColor: '#c084fc', hairColor: '#f0abfc', hairHighlight: '#67e8f9', skateColor: '#a855f7', trimColor: '#e879f9', companion: 'gardevoir' },
+];
+
+export const DEFAULT_OUTFIT = OUTFITS[0].name;
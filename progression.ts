@@ -0,0 +1,147 @@
+import { Outfit } from './types';
+import { OUTFITS } from './outfits';
+
+// =====================================================
+// PROGRESSION — what collecting Pokeballs unlocks, and when
+// =====================================================
+// Everything is driven by `totalCollected`, the Pokeballs collected across
+// every run. Tune the economy here: how much each memory costs, the total each
+// outfit unlocks at, and the messages shown mid-run as the score climbs.
+
+/**
+ * What the nth memory costs, in Pokeballs collected since the one before.
+ * 'linear' charges the same for every memory; 'increasing' starts at `first`
+ * and adds `step` for each memory after it.
+ */
+export type CostCurve =
+  | { kind: 'linear'; cost: number }
+  | { kind: 'increasing'; first: number; step: number };
+
+export interface Milestone {
+  score: number;       // Score within a single run
+  message: string;
+}
+
+export interface ProgressionConfig {
+  memoryCost: CostCurve;
+  memoryCostOverrides: Record<number, number>;  // By memory number (1 = the first) — replaces the curve's cost
+  outfitThresholds: Record<string, number>;     // Outfit name → totalCollected it unlocks at
+  milestones: Milestone[];
+}
+
+export const PROGRESSION: ProgressionConfig = {
+  memoryCost: { kind: 'linear', cost: 5 },
+  // The first memory comes with the very first Pokeball
+  memoryCostOverrides: { 1: 1 },
+  outfitThresholds: {
+    'Classic Pink': 0,
+    'Gardevoir': 30,
+    'Pikachu Yellow': 50,
+    'Team Rocket': 100,
+    'Eevee Brown': 200,
+    'Shiny Holo': 500,
+  },
+  milestones: [
+    { score: 5, message: 'You make every day an adventure!' },
+    { score: 10, message: 'Remember our first date?' },
+    { score: 25, message: 'My favorite person in the world' },
+    { score: 50, message: 'Together is my favorite place' },
+    { score: 75, message: 'You light up every room' },
+    { score: 100, message: 'Forever and always, my love' },
+  ],
+};
+
+/** Pokeballs the nth memory (1-based) costs after the one before it — never less than 1 */
+export function memoryCost(n: number, config: ProgressionConfig = PROGRESSION): number {
+  const curve = config.memoryCost;
+  const cost = config.memoryCostOverrides[n]
+    ?? (curve.kind === 'linear' ? curve.cost : curve.first + curve.step * (n - 1));
+  return Math.max(1, Math.round(cost));
+}
+
+/** The totalCollected at which each of the first `count` memories is earned */
+export function memoryThresholds(count: number, config: ProgressionConfig = PROGRESSION): number[] {
+  const thresholds: number[] = [];
+  let total = 0;
+  for (let n = 1; n <= count; n++) {
+    total += memoryCost(n, config);
+    thresholds.push(total);
+  }
+  return thresholds;
+}
+
+/** How many memories `totalCollected` has earned, out of a pool of `poolSize` */
+export function memoriesEarned(totalCollected: number, poolSize: number, config: ProgressionConfig = PROGRESSION): number {
+  return memoryThresholds(poolSize, config).filter(at => totalCollected >= at).length;
+}
+
+/** Outfits without a threshold are never unlocked */
+export function outfitThreshold(outfit: Outfit, config: ProgressionConfig = PROGRESSION): number {
+  return config.outfitThresholds[outfit.name] ?? Infinity;
+}
+
+export function outfitsUnlockedAt(totalCollected: number, config: ProgressionConfig = PROGRESSION): Outfit[] {
+  return OUTFITS.filter(o => totalCollected >= outfitThreshold(o, config));
+}
+
+export interface NextUnlocks {
+  memoryAt: number | null;                          // Total for the next memory, null once the pool is earned
+  outfit: { outfit: Outfit; at: number } | null;
+}
+
+/** The next memory and outfit still to come after `totalCollected` */
+export function nextUnlocks(totalCollected: number, poolSize: number, config: ProgressionConfig = PROGRESSION): NextUnlocks {
+  const memoryAt = memoryThresholds(poolSize, config).find(at => at > totalCollected) ?? null;
+  const outfit = OUTFITS
+    .map(o => ({ outfit: o, at: outfitThreshold(o, config) }))
+    .filter(({ at }) => at > totalCollected && Number.isFinite(at))
+    .sort((a, b) => a.at - b.at)[0] ?? null;
+  return { memoryAt, outfit };
+}
+
+export interface UnlockRow {
+  total: number;
+  memories: number[];  // Memory numbers earned at this total
+  outfits: string[];
+}
+
+/** Every total that unlocks something, in order — for the preview table */
+export function unlockSchedule(poolSize: number, config: ProgressionConfig = PROGRESSION): UnlockRow[] {
+  const rows = new Map<number, UnlockRow>();
+  const rowAt = (total: number) => {
+    if (!rows.has(total)) rows.set(total, { total, memories: [], outfits: [] });
+    return rows.get(total)!;
+  };
+  memoryThresholds(poolSize, config).forEach((at, i) => rowAt(at).memories.push(i + 1));
+  for (const outfit of OUTFITS) {
+    const at = outfitThreshold(outfit, config);
+    if (at > 0 && Number.isFinite(at)) rowAt(at).outfits.push(outfit.name);
+  }
+  return [...rows.values()].sort((a, b) => a.total - b.total);
+}
+
+export interface MeterSegment {
+  from: number;        // Total where this stretch started (the previous unlock)
+  to: number;          // Total that unlocks the next thing
+  fraction: number;    // 0–1 of the way there
+}
+
+function segment(total: number, thresholds: number[]): MeterSegment | null {
+  const to = thresholds.find(at => at > total);
+  if (to === undefined) return null;
+  const from = Math.max(0, ...thresholds.filter(at => at <= total));
+  return { from, to, fraction: (total - from) / (to - from) };
+}
+
+/** How far `total` is along the way to the next memory and the next outfit — null once there are none left */
+export function progressToward(total: number, poolSize: number, config: ProgressionConfig = PROGRESSION) {
+  const outfits = OUTFITS
+    .map(o => ({ name: o.name, at: outfitThreshold(o, config) }))
+    .filter(({ at }) => Number.isFinite(at))
+    .sort((a, b) => a.at - b.at);
+  const outfit = segment(total, outfits.map(o => o.at));
+  return {
+    memory: segment(total, memoryThresholds(poolSize, config)),
+    outfit: outfit && { ...outfit, name: outfits.find(o => o.at === outfit.to)!.name },
+  };
+}
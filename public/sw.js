@@ -0,0 +1,108 @@
+// =====================================================
+// SERVICE WORKER — offline app shell and memory media
+// =====================================================
+// The shell (index.html, the bundles it references, Tailwind and the fonts) is
+// pre-cached on install and refreshed in the background. Memory media is put in
+// MEDIA_CACHE by the page itself (see offline.ts); here we only serve it.
+
+const SHELL_CACHE = 'poke-memories-shell-v1';
+const MEDIA_CACHE = 'poke-memories-media'; // Keep in step with offline.ts
+const SHELL_EXTRAS = ['manifest.webmanifest', 'icon.svg'];
+const CROSS_ORIGIN_SHELL = ['https://cdn.tailwindcss.com', 'https://fonts.googleapis.com', 'https://fonts.gstatic.com'];
+
+const scopeUrl = path => new URL(path, self.registration.scope).toString();
+
+/** index.html plus every script and stylesheet it links to */
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const page = await fetch(scopeUrl('./'), { cache: 'reload' });
+  const html = await page.clone().text();
+  const linked = [...html.matchAll(/<(?:script|link)[^>]+(?:src|href)="([^"]+)"/g)].map(match => match[1]);
+  await cache.put(scopeUrl('./'), page);
+  await Promise.all([...linked, ...SHELL_EXTRAS].map(async path => {
+    const url = scopeUrl(path);
+    const sameOrigin = new URL(url).origin === self.location.origin;
+    try {
+      const response = await fetch(url, { mode: sameOrigin ? 'same-origin' : 'no-cors', cache: 'reload' });
+      if (response.ok || response.type === 'opaque') await cache.put(url, response);
+    } catch {
+      // One missing asset shouldn't stop the worker installing — it'll be cached on first use
+    }
+  }));
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith('poke-memories-shell-') && name !== SHELL_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+/**
+ * Videos are fetched in byte ranges — answer those from the cached whole file.
+ * Opaque copies (hosts without CORS) can't be sliced, and browsers reject them
+ * as an answer to a range request, so those return null and go to the network.
+ */
+async function rangeResponse(request, cached) {
+  const range = /bytes=(\d*)-(\d*)/.exec(request.headers.get('range') ?? '');
+  if (!range) return cached;
+  if (cached.status !== 200) return null;
+  const blob = await cached.blob();
+  const start = range[1] ? Number(range[1]) : 0;
+  const end = range[2] ? Math.min(Number(range[2]), blob.size - 1) : blob.size - 1;
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') ?? '',
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+/** Serve from the shell cache, refreshing it from the network for next time */
+async function staleWhileRevalidate(event) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  if (cached) {
+    event.waitUntil(refresh);
+    return cached;
+  }
+  return refresh;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages: the network when we have it, so deploys show up; the cached shell when we don't
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(async () =>
+      (await caches.match(scopeUrl('./'), { cacheName: SHELL_CACHE })) ?? Response.error()));
+    return;
+  }
+
+  const isShell = url.origin === self.location.origin || CROSS_ORIGIN_SHELL.some(origin => request.url.startsWith(origin));
+  event.respondWith((async () => {
+    const media = await caches.match(request.url, { cacheName: MEDIA_CACHE, ignoreVary: true });
+    if (media) return (await rangeResponse(request, media)) ?? fetch(request);
+    // memories.json is handled by its own fallback in manifest.ts
+    if (isShell && !url.pathname.endsWith('/memories.json')) return staleWhileRevalidate(event);
+    return fetch(request);
+  })());
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayInput } from './types';
+import { EngineInput, FRAME_MS, createEngineState } from './engine';
+import { finishReplay, simulateReplay, stepRecorded } from './replay';
+
+/** Play a run through the same recorder GameView uses */
+function playAndRecord(seed: number, steps: number, inputsAt: (step: number) => EngineInput[]) {
+  let state = createEngineState(800, 600, seed);
+  const inputs: ReplayInput[] = [];
+  for (let frame = 0; frame < steps; frame++) {
+    const step = stepRecorded(state, inputsAt(frame), frame);
+    state = step.state;
+    inputs.push(...step.recorded);
+  }
+  const replay = finishReplay({ seed, width: 800, height: 600, outfit: 'Classic Pink' }, steps, Math.floor(state.score), inputs);
+  return { state, replay };
+}
+
+describe('replays', () => {
+  const run = () => playAndRecord(42, 900, step => {
+    if (step === 300) return [{ type: 'resize', width: 390, height: 844 }];
+    if (step === 600) return [{ type: 'resize', width: 844, height: 390 }];
+    if (step % 50 === 0) return [{ type: 'press' }];
+    if (step % 50 === 12) return [{ type: 'release' }];
+    return [];
+  });
+
+  it('records each input against the step it was applied on', () => {
+    const { replay } = run();
+    const resize = replay.inputs.find(input => input.type === 'resize');
+    expect(resize).toMatchObject({ frame: 300, width: 390, height: 844 });
+    // Time is the simulated clock once that step has run
+    expect(resize!.time).toBeCloseTo(301 * FRAME_MS);
+    expect(replay.inputs.find(input => input.frame === 612)).toMatchObject({ type: 'release' });
+    expect(replay.inputs.filter(input => input.type === 'resize')).toHaveLength(2);
+  });
+
+  it('reproduces a run that was resized partway through', () => {
+    const { state, replay } = run();
+    expect(state.width).toBe(844);
+    expect(simulateReplay(replay, replay.frames).state).toEqual(state);
+  });
+});
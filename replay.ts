@@ -0,0 +1,68 @@
+import { Replay, ReplayInput } from './types';
+import { EngineInput, EngineState, StepResult, createEngineState, stepEngine } from './engine';
+
+// =====================================================
+// INPUT RECORDING & REPLAY
+// =====================================================
+// A run is fully described by its seed, starting viewport, and the jump
+// presses/releases and resizes keyed by simulation step. The engine always advances in fixed steps, so
+// feeding the same inputs back through it reproduces the run exactly.
+
+/** How many recent runs we keep in the save */
+export const MAX_REPLAYS = 5;
+
+/** Fast-forward speeds offered during playback — multiplies the real time fed to the step accumulator */
+export const REPLAY_SPEEDS = [1, 2, 4];
+
+/** Newest-first list capped at MAX_REPLAYS */
+export function addReplay(replays: Replay[], replay: Replay): Replay[] {
+  return [replay, ...replays].slice(0, MAX_REPLAYS);
+}
+
+/** One live step: advance the engine and note its inputs against the step they were applied on */
+export function stepRecorded(state: EngineState, inputs: EngineInput[], frame: number): StepResult & { recorded: ReplayInput[] } {
+  const result = stepEngine(state, inputs);
+  return { ...result, recorded: inputs.map(input => ({ frame, time: result.state.time, ...input })) };
+}
+
+/** The replay of a finished run. `width`/`height` are the size it started at */
+export function finishReplay(
+  run: { seed: number; width: number; height: number; outfit: string },
+  frames: number,
+  score: number,
+  inputs: ReplayInput[],
+): Replay {
+  return { ...run, frames, score, recordedAt: new Date().toISOString(), inputs: [...inputs] };
+}
+
+export function createReplayState(replay: Replay): EngineState {
+  return createEngineState(replay.width, replay.height, replay.seed);
+}
+
+/** Inputs recorded for a single step. `cursor` is the index of the next unplayed input */
+export function inputsForFrame(replay: Replay, frame: number, cursor: number): { inputs: EngineInput[]; cursor: number } {
+  const inputs: EngineInput[] = [];
+  let i = cursor;
+  while (i < replay.inputs.length && replay.inputs[i].frame <= frame) {
+    const input = replay.inputs[i];
+    if (input.frame === frame) {
+      inputs.push(input.type === 'resize'
+        ? { type: 'resize', width: input.width, height: input.height }
+        : { type: input.type });
+    }
+    i++;
+  }
+  return { inputs, cursor: i };
+}
+
+/** Re-simulate a replay from the start up to (but not including) `frame` */
+export function simulateReplay(replay: Replay, frame: number): { state: EngineState; cursor: number } {
+  let state = createReplayState(replay);
+  let cursor = 0;
+  for (let f = 0; f < frame; f++) {
+    const next = inputsForFrame(replay, f, cursor);
+    cursor = next.cursor;
+    state = stepEngine(state, next.inputs).state;
+  }
+  return { state, cursor };
+}
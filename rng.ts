@@ -0,0 +1,47 @@
+// =====================================================
+// SEEDED RANDOM NUMBER GENERATOR
+// =====================================================
+// Every random roll that affects a run (spawning, particles, unlock picks)
+// goes through one of these, so a run can be reproduced from its seed.
+// Mulberry32: tiny, fast, and its whole state is a single uint32.
+
+export interface Rng {
+  /** Next float in [0, 1), like Math.random() */
+  next: () => number;
+  /** Current internal state — pass to createRng() to resume the sequence */
+  state: () => number;
+}
+
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return {
+    next: () => {
+      a = (a + 0x6d2b79f5) >>> 0;
+      let t = a;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    state: () => a,
+  };
+}
+
+/** A fresh seed for a new run — the only place we use unseeded randomness */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/** Read a `?seed=` URL parameter, if present and valid */
+export function getSeedFromUrl(): number | null {
+  const raw = new URLSearchParams(window.location.search).get('seed');
+  if (raw === null || !/^\d+$/.test(raw)) return null;
+  const seed = Number(raw);
+  return seed <= 0xffffffff ? seed : null;
+}
+
+/** Link that replays a given seed — nothing else from the current address comes along */
+export function seedUrl(seed: number): string {
+  const url = new URL(window.location.origin + window.location.pathname);
+  url.searchParams.set('seed', String(seed));
+  return url.toString();
+}
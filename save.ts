@@ -0,0 +1,447 @@
+import { SaveData, SaveFile, Profile } from './types';
+import { OUTFITS, DEFAULT_OUTFIT } from './outfits';
+import { DEFAULT_KEY_BINDINGS, INPUT_ACTIONS } from './controls';
+import { MAX_REPLAYS } from './replay';
+import { SaveStore, createLocalStorageStore } from './storage';
+
+// =====================================================
+// SAVE DATA — versioning, migrations and validation
+// =====================================================
+// Every save carries a `version`. To add a field: bump SAVE_VERSION and append
+// a migration that upgrades the previous shape. Never edit an old migration —
+// players may still have saves at that version. Each profile (see below) holds
+// its own versioned save.
+
+const STORAGE_KEY = 'poke-memories-save';
+const BACKUP_KEY = 'poke-memories-save-backup';
+
+export const SAVE_VERSION = 4;
+export const MAX_NOTE_LENGTH = 2000;
+
+/** Thrown when a save can't be migrated or fails validation */
+export class SaveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveError';
+  }
+}
+
+// Raw, untrusted save shape while it moves through the migration chain
+type RawSave = Record<string, unknown>;
+
+/** MIGRATIONS[n] upgrades a version-n save to version n + 1 */
+const MIGRATIONS: ((data: RawSave) => RawSave)[] = [
+  // 0 → 1: unversioned saves — fill in any missing original fields
+  data => ({
+    ...data,
+    highScore: data.highScore ?? 0,
+    totalCollected: data.totalCollected ?? 0,
+    unlockedMemoryIds: data.unlockedMemoryIds ?? [],
+    unlockedOutfits: data.unlockedOutfits ?? [DEFAULT_OUTFIT],
+    selectedOutfit: data.selectedOutfit ?? DEFAULT_OUTFIT,
+  }),
+  // 1 → 2: recent-run replays. Replays recorded before the fixed-step engine
+  // carry per-step durations and can't be replayed, so they are dropped.
+  data => ({
+    ...data,
+    replays: Array.isArray(data.replays)
+      ? data.replays.filter((r: { steps?: unknown }) => !r.steps)
+      : [],
+  }),
+  // 2 → 3: configurable controls
+  data => ({ ...data, keyBindings: data.keyBindings ?? DEFAULT_KEY_BINDINGS }),
+  // 3 → 4: favourite memories and personal notes
+  data => ({ ...data, favoriteMemoryIds: data.favoriteMemoryIds ?? [], memoryNotes: data.memoryNotes ?? {} }),
+];
+
+export function defaultSave(): SaveData {
+  return {
+    version: SAVE_VERSION,
+    highScore: 0,
+    totalCollected: 0,
+    unlockedMemoryIds: [],
+    unlockedOutfits: [DEFAULT_OUTFIT],
+    selectedOutfit: DEFAULT_OUTFIT,
+    replays: [],
+    keyBindings: DEFAULT_KEY_BINDINGS,
+    favoriteMemoryIds: [],
+    memoryNotes: {},
+  };
+}
+
+/** Run every migration between the save's version and SAVE_VERSION */
+export function migrateSave(input: unknown): RawSave {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new SaveError('Save is not an object');
+  }
+  let data = input as RawSave;
+  const version = data.version ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new SaveError(`Invalid save version: ${String(version)}`);
+  }
+  if (version > SAVE_VERSION) {
+    throw new SaveError(`Save is from a newer version of the game (v${version})`);
+  }
+  for (let v = version; v < SAVE_VERSION; v++) {
+    data = { ...MIGRATIONS[v](data), version: v + 1 };
+  }
+  return data;
+}
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function isReplayInput(value: unknown): boolean {
+  const input = value as Record<string, unknown> | null;
+  if (typeof input !== 'object' || input === null || !isCount(input.frame) || !isNumber(input.time)) return false;
+  if (input.type === 'resize') return isCount(input.width) && isCount(input.height);
+  return input.type === 'press' || input.type === 'release';
+}
+
+/** Everything playback reads — a replay missing any of it would crash "Watch replay" */
+function isReplay(value: unknown): boolean {
+  const replay = value as Record<string, unknown> | null;
+  return typeof replay === 'object' && replay !== null &&
+    isNumber(replay.seed) && isCount(replay.width) && isCount(replay.height) &&
+    isCount(replay.frames) && isCount(replay.score) &&
+    typeof replay.outfit === 'string' && typeof replay.recordedAt === 'string' &&
+    Array.isArray(replay.inputs) && replay.inputs.every(isReplayInput);
+}
+
+/**
+ * Check a fully migrated save. Wrong types, out-of-range numbers, malformed
+ * replays and outfit names we don't know all throw. Unknown memory ids are
+ * kept on purpose: the pool comes from a manifest that can change between
+ * visits, and a memory missing today may be back tomorrow. Imports are the
+ * exception — see parseSaveExport.
+ */
+export function validateSave(data: RawSave): SaveData {
+  const problems: string[] = [];
+  if (!isCount(data.highScore)) problems.push(`highScore must be a non-negative number (got ${String(data.highScore)})`);
+  if (!isCount(data.totalCollected)) problems.push(`totalCollected must be a non-negative number (got ${String(data.totalCollected)})`);
+  if (!isStringArray(data.unlockedMemoryIds)) problems.push('unlockedMemoryIds must be a list of ids');
+  if (!isStringArray(data.unlockedOutfits)) problems.push('unlockedOutfits must be a list of names');
+  if (typeof data.selectedOutfit !== 'string') problems.push('selectedOutfit must be a name');
+  if (!Array.isArray(data.replays)) problems.push('replays must be a list');
+  else data.replays.forEach((replay, i) => { if (!isReplay(replay)) problems.push(`replay ${i + 1} is malformed`); });
+  const bindings = data.keyBindings as SaveData['keyBindings'] | undefined;
+  const bindingsValid = typeof bindings === 'object' && bindings !== null &&
+    INPUT_ACTIONS.every(({ action }) =>
+      isStringArray(bindings.keys?.[action]) &&
+      Array.isArray(bindings.gamepad?.[action]) && bindings.gamepad[action].every(isCount)
+    );
+  if (!bindingsValid) problems.push('keyBindings is malformed');
+  if (!isStringArray(data.favoriteMemoryIds)) problems.push('favoriteMemoryIds must be a list of ids');
+  const notes = data.memoryNotes as Record<string, unknown> | undefined;
+  if (typeof notes !== 'object' || notes === null || Array.isArray(notes) || !Object.values(notes).every(n => typeof n === 'string')) {
+    problems.push('memoryNotes must map memory ids to text');
+  }
+  const outfitNames = new Set(OUTFITS.map(o => o.name));
+  const unknownOutfits = isStringArray(data.unlockedOutfits) ? data.unlockedOutfits.filter(name => !outfitNames.has(name)) : [];
+  if (unknownOutfits.length > 0) problems.push(`unknown outfits: ${unknownOutfits.join(', ')}`);
+  if (typeof data.selectedOutfit === 'string' && !outfitNames.has(data.selectedOutfit)) {
+    problems.push(`selectedOutfit is not an outfit: ${data.selectedOutfit}`);
+  }
+  if (problems.length > 0) throw new SaveError(problems.join('; '));
+
+  const unlockedOutfits = data.unlockedOutfits as string[];
+  const selectedOutfit = data.selectedOutfit as string;
+
+  return {
+    version: SAVE_VERSION,
+    highScore: data.highScore as number,
+    totalCollected: data.totalCollected as number,
+    unlockedMemoryIds: [...new Set(data.unlockedMemoryIds as string[])],
+    unlockedOutfits: unlockedOutfits.length > 0 ? unlockedOutfits : [DEFAULT_OUTFIT],
+    selectedOutfit: unlockedOutfits.includes(selectedOutfit) ? selectedOutfit : DEFAULT_OUTFIT,
+    replays: data.replays as SaveData['replays'],
+    keyBindings: bindings as SaveData['keyBindings'],
+    favoriteMemoryIds: [...new Set(data.favoriteMemoryIds as string[])],
+    memoryNotes: cleanNotes(notes as Record<string, string>),
+  };
+}
+
+/** Drop blank notes and cut long ones down to MAX_NOTE_LENGTH */
+function cleanNotes(notes: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(notes)
+    .filter(([, note]) => note.trim() !== '')
+    .map(([id, note]) => [id, note.slice(0, MAX_NOTE_LENGTH)]));
+}
+
+/** Favourite or un-favourite a memory */
+export function toggleFavorite(save: SaveData, memoryId: string): SaveData {
+  const favorites = save.favoriteMemoryIds;
+  return {
+    ...save,
+    favoriteMemoryIds: favorites.includes(memoryId)
+      ? favorites.filter(id => id !== memoryId)
+      : [...favorites, memoryId],
+  };
+}
+
+/** Set a memory's note — a blank note removes it */
+export function setMemoryNote(save: SaveData, memoryId: string, note: string): SaveData {
+  return { ...save, memoryNotes: cleanNotes({ ...save.memoryNotes, [memoryId]: note }) };
+}
+
+// =====================================================
+// PROFILES
+// =====================================================
+// What's stored is a SaveFile wrapping one SaveData per player. Saves from
+// before profiles are a bare SaveData — they become the first profile.
+
+const FILE_VERSION = 1;
+export const MAX_PROFILES = 6;
+export const MAX_PROFILE_NAME_LENGTH = 20;
+
+export function cleanProfileName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_PROFILE_NAME_LENGTH);
+}
+
+export function createProfile(name: string, save: SaveData = defaultSave()): Profile {
+  const id = `${Date.now().toString(36)}-${Math.floor(Math.random() * 0xffffff).toString(36)}`;
+  return { id, name: cleanProfileName(name) || 'Player', save };
+}
+
+function singleProfileFile(profile: Profile): SaveFile {
+  return { version: FILE_VERSION, profiles: [profile], activeProfileId: profile.id, shareMemories: false, offlineExcluded: [] };
+}
+
+export function defaultSaveFile(): SaveFile {
+  return singleProfileFile(createProfile('Player 1'));
+}
+
+/** Migrate and validate every profile in a stored blob */
+export function parseSaveFile(input: unknown): SaveFile {
+  if (typeof input !== 'object' || input === null || !('profiles' in input)) {
+    return singleProfileFile(createProfile('Player 1', validateSave(migrateSave(input))));
+  }
+  const data = input as RawSave;
+  if (typeof data.version !== 'number' || data.version > FILE_VERSION) {
+    throw new SaveError(`Unknown save file version: ${String(data.version)}`);
+  }
+  if (!Array.isArray(data.profiles) || data.profiles.length === 0) {
+    throw new SaveError('profiles must be a non-empty list');
+  }
+  const profiles = data.profiles.map((raw: Partial<Profile>, i): Profile => {
+    if (typeof raw?.id !== 'string' || typeof raw.name !== 'string') {
+      throw new SaveError(`Profile ${i + 1} is missing its id or name`);
+    }
+    try {
+      return { id: raw.id, name: raw.name, save: validateSave(migrateSave(raw.save)) };
+    } catch (err) {
+      throw new SaveError(`Profile "${raw.name}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+  return {
+    version: FILE_VERSION,
+    profiles,
+    activeProfileId: profiles.some(p => p.id === data.activeProfileId) ? data.activeProfileId as string : profiles[0].id,
+    shareMemories: data.shareMemories === true,
+    // Device settings are optional — missing ones take their defaults
+    offlineExcluded: isStringArray(data.offlineExcluded) ? data.offlineExcluded : [],
+  };
+}
+
+export function activeProfile(file: SaveFile): Profile {
+  return file.profiles.find(p => p.id === file.activeProfileId) ?? file.profiles[0];
+}
+
+/** Apply `update` to the active profile's save */
+export function updateActiveSave(file: SaveFile, update: (save: SaveData) => SaveData): SaveFile {
+  const active = activeProfile(file);
+  return {
+    ...file,
+    profiles: file.profiles.map(p => p.id === active.id ? { ...p, save: update(p.save) } : p),
+  };
+}
+
+/** Memories a profile can see — with sharing on, anyone's unlocks count */
+export function visibleMemoryIds(file: SaveFile, profile: Profile = activeProfile(file)): string[] {
+  if (!file.shareMemories) return profile.save.unlockedMemoryIds;
+  return [...new Set(file.profiles.flatMap(p => p.save.unlockedMemoryIds))];
+}
+
+export function addProfile(file: SaveFile, name: string): SaveFile {
+  if (file.profiles.length >= MAX_PROFILES) return file;
+  const profile = createProfile(name);
+  return { ...file, profiles: [...file.profiles, profile], activeProfileId: profile.id };
+}
+
+export function renameProfile(file: SaveFile, id: string, name: string): SaveFile {
+  const cleaned = cleanProfileName(name);
+  if (!cleaned) return file;
+  return { ...file, profiles: file.profiles.map(p => p.id === id ? { ...p, name: cleaned } : p) };
+}
+
+/** Remove a profile and its progress. The last profile can't be deleted. */
+export function deleteProfile(file: SaveFile, id: string): SaveFile {
+  if (file.profiles.length <= 1) return file;
+  const profiles = file.profiles.filter(p => p.id !== id);
+  const activeProfileId = file.activeProfileId === id ? profiles[0].id : file.activeProfileId;
+  return { ...file, profiles, activeProfileId };
+}
+
+// =====================================================
+// LOADING / WRITING
+// =====================================================
+
+export interface LoadResult {
+  file: SaveFile;
+  /** Set when the stored save couldn't be read — the raw blob was kept in a backup */
+  error: string | null;
+}
+
+export async function loadSave(store: SaveStore): Promise<LoadResult> {
+  let raw: string | null = null;
+  try {
+    raw = await store.read(STORAGE_KEY) ?? await readLegacySave(store);
+    if (!raw) return { file: defaultSaveFile(), error: null };
+    return { file: parseSaveFile(JSON.parse(raw)), error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (raw) await backupRawSave(store, raw, message);
+    return { file: defaultSaveFile(), error: message };
+  }
+}
+
+export async function writeSave(store: SaveStore, file: SaveFile) {
+  await store.write(STORAGE_KEY, JSON.stringify(file));
+}
+
+/** Saves from before pluggable storage live in localStorage — pick them up once */
+async function readLegacySave(store: SaveStore): Promise<string | null> {
+  if (store.name !== 'IndexedDB') return null;
+  const legacy = createLocalStorageStore();
+  return await legacy.isAvailable() ? legacy.read(STORAGE_KEY) : null;
+}
+
+/** Keep an unreadable save around so progress can be recovered by hand */
+async function backupRawSave(store: SaveStore, raw: string, reason: string) {
+  try {
+    await store.write(BACKUP_KEY, JSON.stringify({ failedAt: new Date().toISOString(), reason, raw }));
+  } catch { /* storage full — nothing more we can do */ }
+}
+
+// =====================================================
+// EXPORT / IMPORT
+// =====================================================
+
+const EXPORT_FORMAT = 'poke-memories-save';
+
+interface SaveExport {
+  format: typeof EXPORT_FORMAT;
+  exportedAt: string;
+  checksum: string;
+  data: SaveData;
+}
+
+/** FNV-1a — catches truncated or hand-edited files, not tampering */
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function exportSave(save: SaveData): string {
+  const file: SaveExport = {
+    format: EXPORT_FORMAT,
+    exportedAt: new Date().toISOString(),
+    checksum: checksum(JSON.stringify(save)),
+    data: save,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const DOWNLOAD_REVOKE_MS = 60_000;
+
+/** Offer the save as a downloadable JSON file */
+export function downloadSave(save: SaveData) {
+  const blob = new Blob([exportSave(save)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `poke-memories-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  // Revoking straight away can cancel the download in Safari and Firefox
+  setTimeout(() => URL.revokeObjectURL(url), DOWNLOAD_REVOKE_MS);
+}
+
+/**
+ * Parse an exported file, verify its checksum and bring it up to the current
+ * schema. Unlike a stored save, an import is checked against today's pool:
+ * memory ids it doesn't know are reported rather than carried in.
+ */
+export function parseSaveExport(text: string, poolIds: string[]): SaveData {
+  let file: Partial<SaveExport>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new SaveError("This file isn't valid JSON");
+  }
+  if (file?.format !== EXPORT_FORMAT || !file.data) {
+    throw new SaveError("This doesn't look like a Poke-Memories save file");
+  }
+  if (checksum(JSON.stringify(file.data)) !== file.checksum) {
+    throw new SaveError('Checksum mismatch — the file was changed or damaged');
+  }
+  const save = validateSave(migrateSave(file.data));
+  const unknown = save.unlockedMemoryIds.filter(id => !poolIds.includes(id));
+  if (unknown.length > 0) throw new SaveError(`Memories this game doesn't have: ${unknown.join(', ')}`);
+  return save;
+}
+
+export interface SaveDiff {
+  highScore: [number, number];
+  totalCollected: [number, number];
+  memoriesAdded: string[];
+  memoriesRemoved: string[];
+  outfitsAdded: string[];
+  outfitsRemoved: string[];
+  notesAdded: string[];      // Memory ids with a note only in `incoming`
+  notesChanged: string[];    // Memory ids whose note differs — replacing keeps the incoming one
+}
+
+/** What would change if `incoming` replaced `current` */
+export function diffSaves(current: SaveData, incoming: SaveData): SaveDiff {
+  const added = (from: string[], to: string[]) => to.filter(x => !from.includes(x));
+  return {
+    highScore: [current.highScore, incoming.highScore],
+    totalCollected: [current.totalCollected, incoming.totalCollected],
+    memoriesAdded: added(current.unlockedMemoryIds, incoming.unlockedMemoryIds),
+    memoriesRemoved: added(incoming.unlockedMemoryIds, current.unlockedMemoryIds),
+    outfitsAdded: added(current.unlockedOutfits, incoming.unlockedOutfits),
+    outfitsRemoved: added(incoming.unlockedOutfits, current.unlockedOutfits),
+    notesAdded: Object.keys(incoming.memoryNotes).filter(id => !(id in current.memoryNotes)),
+    notesChanged: Object.keys(incoming.memoryNotes)
+      .filter(id => id in current.memoryNotes && current.memoryNotes[id] !== incoming.memoryNotes[id]),
+  };
+}
+
+/** Keep the best of both: highest scores, every unlock and favourite, this device's settings and notes */
+export function mergeSaves(current: SaveData, incoming: SaveData): SaveData {
+  const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+  const replays = [...current.replays, ...incoming.replays]
+    .filter((r, i, all) => all.findIndex(o => o.recordedAt === r.recordedAt && o.seed === r.seed) === i)
+    .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+  return {
+    ...current,
+    highScore: Math.max(current.highScore, incoming.highScore),
+    totalCollected: Math.max(current.totalCollected, incoming.totalCollected),
+    unlockedMemoryIds: union(current.unlockedMemoryIds, incoming.unlockedMemoryIds),
+    unlockedOutfits: union(current.unlockedOutfits, incoming.unlockedOutfits),
+    replays: replays.slice(0, MAX_REPLAYS),
+    favoriteMemoryIds: union(current.favoriteMemoryIds, incoming.favoriteMemoryIds),
+    // Notes written on both devices keep this device's version
+    memoryNotes: { ...incoming.memoryNotes, ...current.memoryNotes },
+  };
+}
@@ -0,0 +1,225 @@
+#!/usr/bin/env node
+// =====================================================
+// GENERATE memories.json FROM A FOLDER OF MEDIA
+// =====================================================
+// Each sub-folder of <media-dir> is one memory:
+//
+//   media/
+//     ILY_night/            → id "ily-night", caption "ILY Night"
+//       IMG_3974.jpg        → { type: 'image', url: 'ILY_night/IMG_3974.jpg' }
+//       IMG_4001.MOV        → { type: 'video', ... }
+//       caption.txt         → optional, overrides the caption
+//
+// Folders already in the current pool keep their id and caption, so saved
+// unlocks still match, along with any tags, location and unlock conditions
+// added by hand (the manifest's unlockMode is kept too). Files keep any
+// thumbnails and renditions already generated for them. The memory's date is
+// the earliest EXIF/QuickTime capture date among its files. Run
+// generate-thumbnails.mjs and transcode-videos.mjs afterwards for new files.
+//
+// Usage:
+//   node scripts/generate-manifest.mjs <media-dir> [--base-url URL] [--out FILE]
+//                                      [--current FILE|URL] [--dry-run]
+//
+//   --base-url  Prefix for media URLs. Without it URLs are relative to memories.json.
+//   --out       Where to write the manifest (default: <media-dir>/memories.json)
+//   --current   Manifest to compare against (default: --out if it exists, else memories.ts)
+//   --dry-run   Print what would change and write nothing
+
+import { readdir, readFile, writeFile, access } from 'node:fs/promises';
+import { join, resolve, basename } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { mediaTypeFor, readCreationDate } from './media-info.mjs';
+
+const MANIFEST_VERSION = 1; // Keep in step with manifest.ts
+const CAPTION_FILE = 'caption.txt';
+// Fields only ever written by hand in memories.json — carried over as they are
+const HAND_WRITTEN_FIELDS = ['tags', 'location', 'unlockOrder', 'prerequisites', 'minTotalCollected'];
+const ROOT = resolve(fileURLToPath(import.meta.url), '../..');
+
+function parseArgs(argv) {
+  const options = { dir: null, baseUrl: null, out: null, current: null, dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) fail(`${arg} needs a value`);
+      return argv[++i];
+    };
+    if (arg === '--base-url') options.baseUrl = value().replace(/\/+$/, '');
+    else if (arg === '--out') options.out = value();
+    else if (arg === '--current') options.current = value();
+    else if (arg === '--dry-run') options.dryRun = true;
+    else if (arg === '--help' || arg === '-h') usage(0);
+    else if (arg.startsWith('--')) fail(`Unknown option ${arg}`);
+    else if (options.dir) fail(`Unexpected argument ${arg}`);
+    else options.dir = arg;
+  }
+  if (!options.dir) usage(1);
+  options.out ??= join(options.dir, 'memories.json');
+  return options;
+}
+
+function usage(code) {
+  console.log('Usage: node scripts/generate-manifest.mjs <media-dir> [--base-url URL] [--out FILE] [--current FILE|URL] [--dry-run]');
+  process.exit(code);
+}
+
+function fail(message) {
+  console.error(`error: ${message}`);
+  process.exit(1);
+}
+
+/** "ILY_night" → "ily-night" */
+function idFromFolder(folder) {
+  return folder.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+/** "blue_monday" → "Blue Monday"; words already in capitals stay that way */
+function captionFromFolder(folder) {
+  return folder
+    .split(/[_\-\s]+/)
+    .filter(Boolean)
+    .map(word => (word === word.toUpperCase() ? word : word[0].toUpperCase() + word.slice(1)))
+    .join(' ');
+}
+
+const formatDate = date =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** "<folder>/<file>" at the end of a media URL — how entries are matched across base URLs */
+function mediaKey(url) {
+  return decodeURIComponent(new URL(url, 'file:///').pathname).split('/').slice(-2).join('/');
+}
+
+const exists = path => access(path).then(() => true, () => false);
+
+/** The pool to compare against and reuse ids/captions from, and its unlock mode */
+async function loadCurrentPool(source) {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) fail(`Couldn't fetch ${source}: HTTP ${response.status}`);
+    const { memories, unlockMode } = await response.json();
+    return { memories, unlockMode };
+  }
+  if (source.endsWith('.json')) {
+    const { memories, unlockMode } = JSON.parse(await readFile(source, 'utf8'));
+    return { memories, unlockMode };
+  }
+  // The bundled pool is TypeScript — let esbuild compile it
+  const { build } = await import('esbuild');
+  const result = await build({ entryPoints: [source], bundle: true, format: 'esm', write: false, logLevel: 'silent' });
+  const module = await import(`data:text/javascript;base64,${Buffer.from(result.outputFiles[0].text).toString('base64')}`);
+  return { memories: module.MEMORY_POOL, unlockMode: module.UNLOCK_MODE };
+}
+
+async function readMemoryFolder(dir, folder, options, existing) {
+  const entries = await readdir(join(dir, folder), { withFileTypes: true });
+  const files = entries
+    .filter(entry => entry.isFile() && !entry.name.startsWith('.'))
+    .map(entry => entry.name);
+
+  const media = [];
+  const dates = [];
+  for (const file of files) {
+    const type = mediaTypeFor(file);
+    if (!type) {
+      if (file !== CAPTION_FILE) console.warn(`  skipping ${folder}/${file} (not a supported image or video)`);
+      continue;
+    }
+    const path = [folder, file].map(encodeURIComponent).join('/');
+    // Keep whatever the other scripts generated for this file (thumbnail, renditions…)
+    const previous = existing?.media.find(item => mediaKey(item.url) === `${folder}/${file}`);
+    media.push({ ...previous, type, url: options.baseUrl ? `${options.baseUrl}/${path}` : path });
+    const date = await readCreationDate(join(dir, folder, file)).catch(() => null);
+    if (date) dates.push(date);
+  }
+  if (media.length === 0) return null;
+
+  // Photos first, then videos, each in file-name order — like the hand-written pool
+  media.sort((a, b) => a.type.localeCompare(b.type) || a.url.localeCompare(b.url, undefined, { numeric: true }));
+
+  const captionOverride = files.includes(CAPTION_FILE)
+    ? (await readFile(join(dir, folder, CAPTION_FILE), 'utf8')).trim()
+    : '';
+  const earliest = dates.sort((a, b) => a - b)[0];
+  const date = earliest ? formatDate(earliest) : existing?.date;
+
+  return {
+    id: existing?.id ?? idFromFolder(folder),
+    caption: captionOverride || existing?.caption || captionFromFolder(folder),
+    ...(date && { date }),
+    ...Object.fromEntries(HAND_WRITTEN_FIELDS.filter(key => existing?.[key] !== undefined).map(key => [key, existing[key]])),
+    media,
+  };
+}
+
+function diffPools(current, next) {
+  const lines = [];
+  let unchanged = 0;
+  const byId = new Map(current.map(m => [m.id, m]));
+  for (const memory of next) {
+    const before = byId.get(memory.id);
+    byId.delete(memory.id);
+    if (!before) {
+      lines.push(`+ ${memory.id}  "${memory.caption}" (${memory.media.length} media)`);
+      continue;
+    }
+    const changes = [];
+    if (before.caption !== memory.caption) changes.push(`caption "${before.caption}" → "${memory.caption}"`);
+    if (before.date !== memory.date) changes.push(`date ${before.date ?? '—'} → ${memory.date ?? '—'}`);
+    const beforeKeys = new Set(before.media.map(m => mediaKey(m.url)));
+    const nextKeys = new Set(memory.media.map(m => mediaKey(m.url)));
+    const added = [...nextKeys].filter(k => !beforeKeys.has(k));
+    const removed = [...beforeKeys].filter(k => !nextKeys.has(k));
+    if (added.length > 0) changes.push(`+${added.length} media (${added.join(', ')})`);
+    if (removed.length > 0) changes.push(`-${removed.length} media (${removed.join(', ')})`);
+    if (changes.length > 0) lines.push(`~ ${memory.id}  ${changes.join('; ')}`);
+    else unchanged++;
+  }
+  for (const removed of byId.values()) {
+    lines.push(`- ${removed.id}  "${removed.caption}" (players who unlocked it will get a replacement)`);
+  }
+  return { lines, unchanged };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const dir = resolve(options.dir);
+  const currentSource = options.current ?? ((await exists(options.out)) ? options.out : join(ROOT, 'memories.ts'));
+  const { memories: current, unlockMode } = await loadCurrentPool(currentSource);
+
+  const folders = (await readdir(dir, { withFileTypes: true }))
+    .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b));
+
+  const memories = [];
+  const ids = new Set();
+  for (const folder of folders) {
+    const existing = current.find(m => m.media.some(item => mediaKey(item.url).startsWith(`${folder}/`)));
+    const memory = await readMemoryFolder(dir, folder, options, existing);
+    if (!memory) {
+      console.warn(`  skipping ${folder}/ (no media)`);
+      continue;
+    }
+    if (ids.has(memory.id)) fail(`Two folders map to the id "${memory.id}" — rename one of them`);
+    ids.add(memory.id);
+    memories.push(memory);
+  }
+  if (memories.length === 0) fail(`No memory folders with media found in ${dir}`);
+
+  const { lines, unchanged } = diffPools(current, memories);
+  console.log(`Compared with ${basename(currentSource)}:`);
+  for (const line of lines) console.log(`  ${line}`);
+  console.log(`  ${unchanged} unchanged, ${memories.length} memories in total`);
+
+  if (options.dryRun) {
+    console.log('Dry run — nothing written.');
+    return;
+  }
+  const manifest = { version: MANIFEST_VERSION, ...(unlockMode && unlockMode !== 'random' && { unlockMode }), memories };
+  await writeFile(options.out, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`Wrote ${options.out}`);
+}
+
+main().catch(err => fail(err instanceof Error ? err.message : String(err)));
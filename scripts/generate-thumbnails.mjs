@@ -0,0 +1,156 @@
+#!/usr/bin/env node
+// =====================================================
+// THUMBNAILS AND POSTER FRAMES FOR memories.json
+// =====================================================
+// For every media item in the manifest, writes a small WebP next to the
+// original (<folder>/thumbs/<file>.webp) — a scaled-down copy for photos, the
+// frame at 0.5s for videos — and records `thumbnail`, `width` and `height` in
+// the manifest so the gallery never has to download full files to draw cards.
+// The name keeps the original's extension, so a Live Photo's IMG_1234.JPG and
+// IMG_1234.MOV get a thumbnail each.
+//
+// Needs ffmpeg and ffprobe (with libwebp) on PATH. Thumbnails newer than their
+// source are kept, so re-running after adding a few files is quick.
+//
+// Usage:
+//   node scripts/generate-thumbnails.mjs <media-dir> [--manifest FILE] [--width PX] [--force]
+//
+//   --manifest  Manifest to update (default: <media-dir>/memories.json)
+//   --width     Thumbnail width in pixels (default: 480)
+//   --force     Regenerate every thumbnail
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join, resolve, parse } from 'node:path';
+import { readOrientation, localPath, isUpToDate } from './media-info.mjs';
+
+const run = promisify(execFile);
+
+const THUMBS_DIR = 'thumbs';
+const POSTER_TIME = '0.5'; // Same frame VideoPreview used to seek to
+const WEBP_QUALITY = '72';
+
+// ffmpeg filters that undo each EXIF orientation (1 is already upright)
+const ORIENTATION_FILTERS = {
+  2: 'hflip',
+  3: 'hflip,vflip',
+  4: 'vflip',
+  5: 'transpose=0',
+  6: 'transpose=1',
+  7: 'transpose=3',
+  8: 'transpose=2',
+};
+
+function parseArgs(argv) {
+  const options = { dir: null, manifest: null, width: 480, force: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) fail(`${arg} needs a value`);
+      return argv[++i];
+    };
+    if (arg === '--manifest') options.manifest = value();
+    else if (arg === '--width') options.width = Number(value());
+    else if (arg === '--force') options.force = true;
+    else if (arg === '--help' || arg === '-h') usage(0);
+    else if (arg.startsWith('--')) fail(`Unknown option ${arg}`);
+    else if (options.dir) fail(`Unexpected argument ${arg}`);
+    else options.dir = arg;
+  }
+  if (!options.dir) usage(1);
+  if (!Number.isInteger(options.width) || options.width < 16) fail('--width must be a whole number of pixels');
+  options.manifest ??= join(options.dir, 'memories.json');
+  return options;
+}
+
+function usage(code) {
+  console.log('Usage: node scripts/generate-thumbnails.mjs <media-dir> [--manifest FILE] [--width PX] [--force]');
+  process.exit(code);
+}
+
+function fail(message) {
+  console.error(`error: ${message}`);
+  process.exit(1);
+}
+
+/** Displayed size of a photo or video, after rotation metadata is applied */
+async function probeSize(path, type) {
+  const { stdout } = await run('ffprobe', [
+    '-v', 'error', '-select_streams', 'v:0',
+    '-show_entries', 'stream=width,height:stream_tags=rotate:stream_side_data=rotation',
+    '-of', 'json', path,
+  ]);
+  const stream = JSON.parse(stdout).streams?.[0];
+  if (!stream?.width || !stream?.height) throw new Error(`ffprobe found no picture in ${path}`);
+
+  const sideways = type === 'image'
+    ? (await readOrientation(path)) >= 5
+    : Math.abs(Number(stream.tags?.rotate ?? stream.side_data_list?.find(d => 'rotation' in d)?.rotation ?? 0)) % 180 === 90;
+  return sideways
+    ? { width: stream.height, height: stream.width }
+    : { width: stream.width, height: stream.height };
+}
+
+async function writeThumbnail(source, output, type, width) {
+  const scale = `scale='min(${width},iw)':-2`;
+  const encode = ['-frames:v', '1', '-c:v', 'libwebp', '-quality', WEBP_QUALITY, '-y', output];
+
+  if (type === 'image') {
+    // Apply the EXIF orientation ourselves — ffmpeg versions disagree on whether they do
+    const orientation = ORIENTATION_FILTERS[await readOrientation(source)];
+    const filters = orientation ? `${orientation},${scale}` : scale;
+    await run('ffmpeg', ['-v', 'error', '-noautorotate', '-i', source, '-vf', filters, ...encode]);
+    return;
+  }
+  try {
+    await run('ffmpeg', ['-v', 'error', '-ss', POSTER_TIME, '-i', source, '-vf', scale, ...encode]);
+  } catch {
+    // Clips shorter than the poster time — use the first frame
+    await run('ffmpeg', ['-v', 'error', '-i', source, '-vf', scale, ...encode]);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const dir = resolve(options.dir);
+  try {
+    await run('ffmpeg', ['-version']);
+    await run('ffprobe', ['-version']);
+  } catch {
+    fail('ffmpeg and ffprobe need to be installed and on PATH');
+  }
+
+  const manifest = JSON.parse(await readFile(options.manifest, 'utf8'));
+  let written = 0;
+  let kept = 0;
+  let failed = 0;
+
+  for (const memory of manifest.memories) {
+    for (const item of memory.media) {
+      const source = localPath(dir, item.url);
+      const { dir: folder, base } = parse(source);
+      const output = join(folder, THUMBS_DIR, `${base}.webp`);
+      try {
+        if (!options.force && await isUpToDate(source, output)) {
+          kept++;
+        } else {
+          await mkdir(join(folder, THUMBS_DIR), { recursive: true });
+          await writeThumbnail(source, output, item.type, options.width);
+          written++;
+        }
+        Object.assign(item, await probeSize(source, item.type));
+        item.thumbnail = item.url.replace(/[^/]*$/, `${THUMBS_DIR}/${encodeURIComponent(base)}.webp`);
+      } catch (err) {
+        failed++;
+        console.warn(`  ${memory.id}: couldn't process ${source} — ${err.stderr?.trim() || err.message}`);
+      }
+    }
+  }
+
+  await writeFile(options.manifest, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`${written} thumbnails written, ${kept} up to date, ${failed} failed — updated ${options.manifest}`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch(err => fail(err instanceof Error ? err.message : String(err)));
@@ -0,0 +1,169 @@
+// =====================================================
+// MEDIA INFO — file types, capture dates and orientation, no dependencies
+// =====================================================
+// Just enough EXIF and QuickTime parsing to answer "when was this taken?" and
+// "which way up is this photo?".
+// Only the bytes we need are read, so multi-gigabyte .MOV files are cheap.
+
+import { open, stat } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+const VIDEO_EXTENSIONS = ['.mov', '.mp4', '.m4v'];
+
+/** 'image' | 'video' for media we can show, or null for anything else */
+export function mediaTypeFor(file) {
+  const ext = extname(file).toLowerCase();
+  if (IMAGE_EXTENSIONS.includes(ext)) return 'image';
+  if (VIDEO_EXTENSIONS.includes(ext)) return 'video';
+  return null;
+}
+
+/** Local path of a manifest media URL — the last two segments are always <folder>/<file> */
+export function localPath(dir, url) {
+  const [folder, file] = decodeURIComponent(new URL(url, 'file:///').pathname).split('/').slice(-2);
+  return join(dir, folder, file);
+}
+
+/** Whether a generated file is at least as new as the file it was made from */
+export async function isUpToDate(source, output) {
+  try {
+    return (await stat(output)).mtimeMs >= (await stat(source)).mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+const isJpeg = file => ['.jpg', '.jpeg'].includes(extname(file).toLowerCase());
+
+/** When the photo or video was captured, or null if the file doesn't say */
+export async function readCreationDate(file) {
+  const handle = await open(file, 'r');
+  try {
+    if (isJpeg(file)) return (await readExif(handle))?.date ?? null;
+    if (VIDEO_EXTENSIONS.includes(extname(file).toLowerCase())) return await readQuickTimeDate(handle);
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
+
+/** EXIF orientation (1–8) of a photo — 1, "upright", when there's no tag */
+export async function readOrientation(file) {
+  if (!isJpeg(file)) return 1;
+  const handle = await open(file, 'r');
+  try {
+    return (await readExif(handle))?.orientation ?? 1;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readBytes(handle, position, length) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+// ---------- JPEG / EXIF ----------
+
+const EXIF_SCAN_BYTES = 256 * 1024;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME = 0x0132;
+const TAG_ORIENTATION = 0x0112;
+
+async function readExif(handle) {
+  const data = await readBytes(handle, 0, EXIF_SCAN_BYTES);
+  if (data.readUInt16BE(0) !== 0xffd8) return null;
+
+  // Walk the JPEG segments until the APP1 "Exif" one
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    const length = data.readUInt16BE(offset + 2);
+    if (marker === 0xe1 && data.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+      return parseTiff(data.subarray(offset + 10, offset + 2 + length));
+    }
+    if (marker === 0xda) break; // Start of image data — no EXIF before it
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function parseTiff(tiff) {
+  if (tiff.length < 8) return null;
+  const little = tiff.toString('latin1', 0, 2) === 'II';
+  const u16 = at => (little ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const u32 = at => (little ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+
+  const readIfd = ifdOffset => {
+    const entries = new Map();
+    if (ifdOffset + 2 > tiff.length) return entries;
+    const count = u16(ifdOffset);
+    for (let i = 0; i < count; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      if (entry + 12 > tiff.length) break;
+      // SHORT values sit in the first two bytes of the value field
+      const isShort = u16(entry + 2) === 3;
+      entries.set(u16(entry), { count: u32(entry + 4), value: isShort ? u16(entry + 8) : u32(entry + 8) });
+    }
+    return entries;
+  };
+  const readAscii = entry => {
+    if (!entry || entry.value + entry.count > tiff.length) return null;
+    return tiff.toString('latin1', entry.value, entry.value + entry.count).replace(/\0+$/, '');
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const exifIfd = ifd0.has(TAG_EXIF_IFD) ? readIfd(ifd0.get(TAG_EXIF_IFD).value) : new Map();
+  const raw = readAscii(exifIfd.get(TAG_DATE_TIME_ORIGINAL)) ?? readAscii(ifd0.get(TAG_DATE_TIME));
+  const orientation = ifd0.get(TAG_ORIENTATION)?.value ?? 1;
+  // EXIF dates look like "2024:03:02 21:14:07" in the camera's local time
+  const match = raw?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return { date: null, orientation };
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  return { date: new Date(y, mo - 1, d, h, mi, s), orientation };
+}
+
+// ---------- QuickTime / MP4 ----------
+
+// mvhd times count seconds from 1904-01-01 UTC
+const QUICKTIME_EPOCH_OFFSET = Date.UTC(1904, 0, 1) / 1000;
+
+/** Find the first atom of `type` between `start` and `end` without reading their bodies */
+async function findAtom(handle, start, end, type) {
+  let position = start;
+  while (position + 8 <= end) {
+    const header = await readBytes(handle, position, 16);
+    if (header.length < 8) return null;
+    let size = header.readUInt32BE(0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - position;
+    }
+    if (size < headerSize) return null;
+    if (header.toString('latin1', 4, 8) === type) {
+      return { start: position + headerSize, end: position + size };
+    }
+    position += size;
+  }
+  return null;
+}
+
+async function readQuickTimeDate(handle) {
+  const { size } = await handle.stat();
+  const moov = await findAtom(handle, 0, size, 'moov');
+  if (!moov) return null;
+  const mvhd = await findAtom(handle, moov.start, moov.end, 'mvhd');
+  if (!mvhd) return null;
+
+  const body = await readBytes(handle, mvhd.start, 12);
+  const version = body[0];
+  const seconds = version === 1 ? Number(body.readBigUInt64BE(4)) : body.readUInt32BE(4);
+  if (seconds === 0) return null; // Not set by the encoder
+  return new Date((seconds + QUICKTIME_EPOCH_OFFSET) * 1000);
+}
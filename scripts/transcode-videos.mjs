@@ -0,0 +1,166 @@
+#!/usr/bin/env node
+// =====================================================
+// WEB-FRIENDLY RENDITIONS OF VIDEO MEMORIES
+// =====================================================
+// iPhone .MOV files are often HEVC, which most Android and desktop browsers
+// can't play. For every video in the manifest this writes
+//
+//   <folder>/renditions/<file>.mp4   H.264 + AAC — plays almost everywhere
+//   <folder>/renditions/<file>.webm  VP9 + Opus  — for browsers without H.264
+//
+// (<file> keeps the original's extension, e.g. IMG_1234.MOV.mp4, so IMG_1234.MOV
+// and IMG_1234.mp4 in one folder get renditions each) and records them as `renditions` (most preferred first) with their MIME
+// types. HEVC originals also get a `mimeType`, so browsers that can't decode
+// them skip straight to a rendition instead of trying.
+//
+// Needs ffmpeg and ffprobe (with libx264 and libvpx-vp9) on PATH. Renditions
+// newer than their source are kept.
+//
+// Usage:
+//   node scripts/transcode-videos.mjs <media-dir> [--manifest FILE] [--max-size PX] [--force]
+//
+//   --manifest  Manifest to update (default: <media-dir>/memories.json)
+//   --max-size  Longest edge of the renditions in pixels (default: 1920)
+//   --force     Re-encode every rendition
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { join, resolve, parse, extname } from 'node:path';
+import { localPath, isUpToDate } from './media-info.mjs';
+
+const run = promisify(execFile);
+
+const RENDITIONS_DIR = 'renditions';
+
+// Order here is the order browsers try them in
+const FORMATS = [
+  {
+    ext: 'mp4',
+    mimeType: 'video/mp4; codecs="avc1.640028, mp4a.40.2"', // H.264 High@4.0 + AAC-LC
+    args: [
+      '-c:v', 'libx264', '-profile:v', 'high', '-level', '4.0', '-pix_fmt', 'yuv420p',
+      '-preset', 'slow', '-crf', '23',
+      '-c:a', 'aac', '-b:a', '128k',
+      '-movflags', '+faststart', // Index up front so playback starts before the download ends
+    ],
+  },
+  {
+    ext: 'webm',
+    mimeType: 'video/webm; codecs="vp9, opus"',
+    args: [
+      '-c:v', 'libvpx-vp9', '-crf', '33', '-b:v', '0', '-row-mt', '1',
+      '-c:a', 'libopus', '-b:a', '96k',
+    ],
+  },
+];
+
+// What to declare for originals browsers may not decode, by video codec
+const ORIGINAL_MIME_TYPES = {
+  hevc: { '.mov': 'video/quicktime; codecs="hvc1"', '.mp4': 'video/mp4; codecs="hvc1"' },
+};
+
+function parseArgs(argv) {
+  const options = { dir: null, manifest: null, maxSize: 1920, force: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) fail(`${arg} needs a value`);
+      return argv[++i];
+    };
+    if (arg === '--manifest') options.manifest = value();
+    else if (arg === '--max-size') options.maxSize = Number(value());
+    else if (arg === '--force') options.force = true;
+    else if (arg === '--help' || arg === '-h') usage(0);
+    else if (arg.startsWith('--')) fail(`Unknown option ${arg}`);
+    else if (options.dir) fail(`Unexpected argument ${arg}`);
+    else options.dir = arg;
+  }
+  if (!options.dir) usage(1);
+  if (!Number.isInteger(options.maxSize) || options.maxSize < 16) fail('--max-size must be a whole number of pixels');
+  options.manifest ??= join(options.dir, 'memories.json');
+  return options;
+}
+
+function usage(code) {
+  console.log('Usage: node scripts/transcode-videos.mjs <media-dir> [--manifest FILE] [--max-size PX] [--force]');
+  process.exit(code);
+}
+
+function fail(message) {
+  console.error(`error: ${message}`);
+  process.exit(1);
+}
+
+async function probeCodec(path) {
+  const { stdout } = await run('ffprobe', [
+    '-v', 'error', '-select_streams', 'v:0', '-show_entries', 'stream=codec_name', '-of', 'json', path,
+  ]);
+  return JSON.parse(stdout).streams?.[0]?.codec_name ?? null;
+}
+
+async function transcode(source, output, format, maxSize) {
+  // Shrink the longest edge to maxSize (never enlarge); -2 keeps the other edge even
+  const scale = `scale='if(gte(iw,ih),min(${maxSize},iw),-2)':'if(gte(iw,ih),-2,min(${maxSize},ih))'`;
+  await run('ffmpeg', [
+    '-v', 'error', '-i', source,
+    '-map', '0:v:0', '-map', '0:a:0?', '-vf', scale,
+    ...format.args, '-y', output,
+  ], { maxBuffer: 16 * 1024 * 1024 });
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const dir = resolve(options.dir);
+  try {
+    await run('ffmpeg', ['-version']);
+    await run('ffprobe', ['-version']);
+  } catch {
+    fail('ffmpeg and ffprobe need to be installed and on PATH');
+  }
+
+  const manifest = JSON.parse(await readFile(options.manifest, 'utf8'));
+  let written = 0;
+  let kept = 0;
+  let failed = 0;
+
+  for (const memory of manifest.memories) {
+    for (const item of memory.media) {
+      if (item.type !== 'video') continue;
+      const source = localPath(dir, item.url);
+      const { dir: folder, base } = parse(source);
+      try {
+        await mkdir(join(folder, RENDITIONS_DIR), { recursive: true });
+        const renditions = [];
+        for (const format of FORMATS) {
+          const output = join(folder, RENDITIONS_DIR, `${base}.${format.ext}`);
+          if (!options.force && await isUpToDate(source, output)) {
+            kept++;
+          } else {
+            console.log(`  ${memory.id}: ${base} → ${format.ext}`);
+            await transcode(source, output, format, options.maxSize);
+            written++;
+          }
+          renditions.push({
+            url: item.url.replace(/[^/]*$/, `${RENDITIONS_DIR}/${encodeURIComponent(base)}.${format.ext}`),
+            mimeType: format.mimeType,
+          });
+        }
+        item.renditions = renditions;
+
+        const originalType = ORIGINAL_MIME_TYPES[await probeCodec(source)]?.[extname(source).toLowerCase()];
+        if (originalType) item.mimeType = originalType;
+        else delete item.mimeType;
+      } catch (err) {
+        failed++;
+        console.warn(`  ${memory.id}: couldn't transcode ${source} — ${err.stderr?.trim() || err.message}`);
+      }
+    }
+  }
+
+  await writeFile(options.manifest, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`${written} renditions written, ${kept} up to date, ${failed} failed — updated ${options.manifest}`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main().catch(err => fail(err instanceof Error ? err.message : String(err)));
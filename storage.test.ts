@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { SaveStore, createMemoryStore, openSaveStore } from './storage';
+import { defaultSaveFile, loadSave, writeSave } from './save';
+
+const unavailableStore = (name: string): SaveStore => ({
+  ...createMemoryStore(),
+  name,
+  isAvailable: async () => false,
+});
+
+describe('openSaveStore', () => {
+  it('picks the first backend that is available', async () => {
+    const store = await openSaveStore([unavailableStore('IndexedDB'), createMemoryStore(), unavailableStore('localStorage')]);
+    expect(store.name).toBe('memory');
+  });
+
+  it('falls back to memory when nothing else is available', async () => {
+    const store = await openSaveStore([unavailableStore('IndexedDB'), unavailableStore('localStorage')]);
+    expect(store.name).toBe('memory');
+    await store.write('key', 'value');
+    expect(await store.read('key')).toBe('value');
+  });
+
+  it('skips IndexedDB and localStorage where the environment has neither', async () => {
+    expect((await openSaveStore()).name).toBe('memory');
+  });
+});
+
+describe('loadSave', () => {
+  it('reads back what writeSave wrote', async () => {
+    const store = createMemoryStore();
+    const file = defaultSaveFile();
+    file.profiles[0].save.totalCollected = 42;
+    await writeSave(store, file);
+    expect(await loadSave(store)).toEqual({ file, error: null });
+  });
+
+  it('starts fresh from an empty store', async () => {
+    const { file, error } = await loadSave(createMemoryStore());
+    expect(error).toBeNull();
+    expect(file.profiles).toHaveLength(1);
+  });
+
+  it('backs up a save it cannot read and starts fresh', async () => {
+    const store = createMemoryStore({ 'poke-memories-save': '{"highScore":-1}' });
+    const { file, error } = await loadSave(store);
+    expect(error).toMatch(/highScore/);
+    expect(file.profiles[0].save.highScore).toBe(0);
+    expect(JSON.parse((await store.read('poke-memories-save-backup'))!).raw).toBe('{"highScore":-1}');
+  });
+});
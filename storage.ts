@@ -0,0 +1,108 @@
+// =====================================================
+// SAVE STORAGE BACKENDS
+// =====================================================
+// save.ts only talks to a SaveStore. We prefer IndexedDB (larger quota, async,
+// survives better on mobile), fall back to localStorage, and finally to memory
+// so the game still runs — without persistence — when both are blocked.
+
+export interface SaveStore {
+  /** Short backend name, for logs and the splash screen */
+  name: string;
+  /** Whether the backend works in this browser right now (private modes often block them) */
+  isAvailable: () => Promise<boolean>;
+  read: (key: string) => Promise<string | null>;
+  write: (key: string, value: string) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+export function createLocalStorageStore(): SaveStore {
+  return {
+    name: 'localStorage',
+    isAvailable: async () => {
+      try {
+        const probe = '__poke-memories-probe__';
+        localStorage.setItem(probe, probe);
+        localStorage.removeItem(probe);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    read: async key => localStorage.getItem(key),
+    write: async (key, value) => localStorage.setItem(key, value),
+    remove: async key => localStorage.removeItem(key),
+  };
+}
+
+const DB_NAME = 'poke-memories';
+const DB_STORE = 'saves';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not supported'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB is blocked'));
+  });
+}
+
+export function createIndexedDbStore(): SaveStore {
+  let db: Promise<IDBDatabase> | null = null;
+  const getDb = () => (db ??= openDatabase());
+
+  /** Run one request in its own transaction and resolve once it commits */
+  const run = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+    getDb().then(database => new Promise<T>((resolve, reject) => {
+      const tx = database.transaction(DB_STORE, mode);
+      const request = fn(tx.objectStore(DB_STORE));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+    }));
+
+  return {
+    name: 'IndexedDB',
+    isAvailable: async () => {
+      try {
+        await getDb();
+        return true;
+      } catch {
+        db = null;
+        return false;
+      }
+    },
+    read: async key => {
+      const value = await run('readonly', store => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    write: async (key, value) => { await run('readwrite', store => store.put(value, key)); },
+    remove: async key => { await run('readwrite', store => store.delete(key)); },
+  };
+}
+
+/** Non-persistent store — for tests, and the last-resort fallback */
+export function createMemoryStore(initial: Record<string, string> = {}): SaveStore {
+  const data = new Map(Object.entries(initial));
+  return {
+    name: 'memory',
+    isAvailable: async () => true,
+    read: async key => data.get(key) ?? null,
+    write: async (key, value) => { data.set(key, value); },
+    remove: async key => { data.delete(key); },
+  };
+}
+
+/** First available backend, in order of preference */
+export async function openSaveStore(
+  candidates: SaveStore[] = [createIndexedDbStore(), createLocalStorageStore(), createMemoryStore()],
+): Promise<SaveStore> {
+  for (const store of candidates) {
+    if (await store.isAvailable()) return store;
+  }
+  return createMemoryStore();
+}
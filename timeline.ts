@@ -0,0 +1,63 @@
+import { Memory } from './types';
+
+// =====================================================
+// TIMELINE — memories grouped by month
+// =====================================================
+
+export interface TimelineEntry {
+  memory: Memory;
+  unlocked: boolean;
+}
+
+export interface TimelineGroup {
+  key: string;         // "2024-03", or "undated"
+  label: string;       // "March 2024"
+  entries: TimelineEntry[];
+}
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+
+/**
+ * Read `Memory.date`. ISO dates ("2024-03-02", "2024-03") are taken as local
+ * dates so they don't slip a day in timezones west of UTC.
+ */
+export function parseMemoryDate(date: string | undefined): Date | null {
+  if (!date) return null;
+  const iso = /^(\d{4})-(\d{2})(?:-(\d{2}))?/.exec(date);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3] ?? 1));
+  const parsed = Date.parse(date);
+  return Number.isNaN(parsed) ? null : new Date(parsed);
+}
+
+/** "March 2024" */
+export function monthLabel(date: Date): string {
+  return `${MONTHS[date.getMonth()]} ${date.getFullYear()}`;
+}
+
+/** "spring 2024" — vague enough not to spoil a locked memory */
+export function seasonOf(date: Date): string {
+  const month = date.getMonth();
+  const season = month === 11 || month <= 1 ? 'winter' : month <= 4 ? 'spring' : month <= 7 ? 'summer' : 'fall';
+  return `${season} ${date.getFullYear()}`;
+}
+
+/** Every memory in date order, grouped by month. Undated ones go last. */
+export function buildTimeline(pool: Memory[], unlockedIds: string[]): TimelineGroup[] {
+  const unlocked = new Set(unlockedIds);
+  const dated = pool
+    .map(memory => ({ memory, date: parseMemoryDate(memory.date) }))
+    .sort((a, b) => (a.date?.getTime() ?? Infinity) - (b.date?.getTime() ?? Infinity));
+
+  const groups: TimelineGroup[] = [];
+  for (const { memory, date } of dated) {
+    const key = date ? `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}` : 'undated';
+    let group = groups[groups.length - 1];
+    if (group?.key !== key) {
+      group = { key, label: date ? monthLabel(date) : 'Someday', entries: [] };
+      groups.push(group);
+    }
+    group.entries.push({ memory, unlocked: unlocked.has(memory.id) });
+  }
+  return groups;
+}
@@ -1,10 +1,19 @@
 
 export type MediaType = 'image' | 'video';
 
+export interface Rendition {
+    url: string;
+    mimeType: string;    // With codecs, e.g. 'video/mp4; codecs="avc1.640028, mp4a.40.2"'
+  }
+
 export interface MediaItem {
     type: MediaType;
     url: string;
-    thumbnail?: string;
+    mimeType?: string;   // Of `url` — set when browsers should check they can decode it first
+    renditions?: Rendition[];  // Web-friendly re-encodes of a video, most preferred first
+    thumbnail?: string;  // Small WebP — a photo's preview or a video's poster frame
+    width?: number;      // Displayed size of the full media, so layout doesn't shift as it loads
+    height?: number;
   }
 
 export interface Memory {
@@ -12,9 +21,21 @@ export interface Memory {
     media: MediaItem[];
     caption: string;
     date?: string;
+    tags?: string[];     // Free-form, e.g. ['beach', 'anniversary'] — searchable in the memory book
+    location?: string;   // e.g. 'Petco Park, San Diego'
+    // Unlock conditions — see unlocks.ts
+    unlockOrder?: number;        // Lower unlocks first; in 'story' mode this is the running order
+    prerequisites?: string[];    // Memory ids that have to be unlocked before this one
+    minTotalCollected?: number;  // Pokeballs collected across all runs before this can unlock
   }
 
-  export type GameState = 'START' | 'PLAYING' | 'GAMEOVER' | 'MEMORIES';
+  /** How the next memory is chosen: at random among eligible ones, or by `unlockOrder` */
+  export type UnlockMode = 'random' | 'story';
+
+  export type GameState = 'START' | 'PLAYING' | 'GAMEOVER' | 'REPLAY' | 'MEMORIES';
+
+  /** Sub-state of PLAYING — COUNTDOWN is the short "3, 2, 1" before resuming */
+  export type PlayState = 'RUNNING' | 'PAUSED' | 'COUNTDOWN';
 
   export type ItemType = 'ball' | 'obstacle' | 'rail' | 'greatball' | 'ultraball' | 'masterball';
 
@@ -35,14 +56,59 @@ export interface Memory {
     hairHighlight: string;
     skateColor: string;
     trimColor: string;
-    unlockScore: number;
     companion: CompanionType;
   }
 
+  export type ReplayInput = {
+    frame: number;       // Simulation step the input was applied on
+    time: number;        // Simulated ms at that step
+  } & (
+    | { type: 'press' | 'release' }
+    | { type: 'resize'; width: number; height: number }
+  );
+
+  export interface Replay {
+    seed: number;
+    width: number;       // Viewport the run started at (spawn positions depend on it) — resizes are in `inputs`
+    height: number;
+    frames: number;      // Steps simulated until game over
+    score: number;
+    outfit: string;
+    recordedAt: string;  // ISO timestamp
+    inputs: ReplayInput[];
+  }
+
+  export type InputAction = 'jump' | 'pause';
+
+  export interface KeyBindings {
+    keys: Record<InputAction, string[]>;        // KeyboardEvent.code values
+    gamepad: Record<InputAction, number[]>;     // Standard-mapping button indices
+  }
+
   export interface SaveData {
+    version: number;     // Schema version — see SAVE_VERSION in save.ts
     highScore: number;
     totalCollected: number;
     unlockedMemoryIds: string[];
     unlockedOutfits: string[];
     selectedOutfit: string;
+    replays: Replay[];   // Most recent runs, newest first
+    keyBindings: KeyBindings;
+    favoriteMemoryIds: string[];
+    memoryNotes: Record<string, string>;  // "What I remember about this day", by memory id
+  }
+
+  export interface Profile {
+    id: string;
+    name: string;
+    save: SaveData;
+  }
+
+  /** Everything stored on the device — one SaveData per player profile */
+  export interface SaveFile {
+    version: number;          // Container version — see FILE_VERSION in save.ts
+    profiles: Profile[];
+    activeProfileId: string;
+    shareMemories: boolean;   // Memories unlocked by any profile show in every memory book
+    offlineExcluded: string[];  // Memory ids not to keep for offline viewing on this device
   }
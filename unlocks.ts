@@ -0,0 +1,54 @@
+import { Memory, UnlockMode } from './types';
+
+// =====================================================
+// UNLOCKS — which memory comes next
+// =====================================================
+// By default each earned memory is a random locked one. A memory can hold
+// itself back until others are unlocked (`prerequisites`), until enough
+// Pokeballs have been collected overall (`minTotalCollected`), or until every
+// memory with a lower `unlockOrder` is out. In 'story' mode the eligible
+// memory with the lowest `unlockOrder` is always next; memories without one
+// come after, at random. If nothing is eligible the unlock waits for a later
+// run — the earned count doesn't change, so it's picked up then.
+
+export interface UnlockContext {
+  mode: UnlockMode;
+  totalCollected: number;
+  random: () => number;
+}
+
+/** Whether a locked memory's conditions are met, given what's unlocked so far */
+export function isUnlockable(memory: Memory, pool: Memory[], unlocked: Set<string>, totalCollected: number): boolean {
+  if (unlocked.has(memory.id)) return false;
+  if (totalCollected < (memory.minTotalCollected ?? 0)) return false;
+  // Prerequisites that aren't in the pool (any more) can never be met, so they don't count
+  const inPool = (id: string) => pool.some(m => m.id === id);
+  if (memory.prerequisites?.some(id => inPool(id) && !unlocked.has(id))) return false;
+  const order = memory.unlockOrder;
+  return order === undefined || !pool.some(m =>
+    !unlocked.has(m.id) && m.unlockOrder !== undefined && m.unlockOrder < order);
+}
+
+/** Pick up to `count` memories to unlock, one at a time so each pick can open up the next */
+export function pickNewMemories(pool: Memory[], alreadyUnlocked: string[], count: number, context: UnlockContext): string[] {
+  const unlocked = new Set(alreadyUnlocked);
+  const picked: string[] = [];
+  while (picked.length < count) {
+    const eligible = pool.filter(m => isUnlockable(m, pool, unlocked, context.totalCollected));
+    if (eligible.length === 0) break;
+    const next = pickOne(eligible, context);
+    picked.push(next.id);
+    unlocked.add(next.id);
+  }
+  return picked;
+}
+
+function pickOne(eligible: Memory[], { mode, random }: UnlockContext): Memory {
+  if (mode === 'story') {
+    const ordered = eligible
+      .filter(m => m.unlockOrder !== undefined)
+      .sort((a, b) => a.unlockOrder! - b.unlockOrder!);
+    if (ordered.length > 0) return ordered[0];
+  }
+  return eligible[Math.floor(random() * eligible.length)];
+}
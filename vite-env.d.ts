@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL that memories.json and its media are served from */
+  readonly VITE_MEMORIES_BASE_URL?: string;
+}